@@ -2,6 +2,8 @@ import type {NextConfig} from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // El pipeline facial del servidor usa face-api.js/tfjs en Node; se cargan con require nativo.
+  serverExternalPackages: ['face-api.js', 'pngjs'],
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -0,0 +1,13 @@
+"use client";
+import ProtectedPage from '@/components/auth/protected-page';
+import SettingsForm from '@/components/admin/settings-form';
+
+export default function AdminSettingsPage() {
+  return (
+    <ProtectedPage adminOnly={true}>
+      <div className="container mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <SettingsForm />
+      </div>
+    </ProtectedPage>
+  );
+}
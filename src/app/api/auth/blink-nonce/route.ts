@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getSettings } from '@/lib/server/settings-repository';
+import { jsonError } from '@/lib/server/http';
+import { issueBlinkNonce } from '@/lib/server/liveness';
+import { enforceRateLimit, livenessNonceLimiter } from '@/lib/server/rate-limit';
+
+// Emite el nonce de la prueba de parpadeo para el siguiente intento de inicio de sesión. La
+// evidencia que lo lleva se verifica en `/api/auth/face-login` o `/api/auth/face-verify`.
+export async function POST(request: Request) {
+  const limited = enforceRateLimit(request, livenessNonceLimiter);
+  if (limited) return limited;
+
+  const { liveness } = await getSettings();
+  if (!liveness.requireBlink) {
+    return jsonError('La configuración actual no exige la prueba de parpadeo.', 409);
+  }
+  const nonce = await issueBlinkNonce();
+  return NextResponse.json({ nonce }, { status: 201 });
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { FaceLoginSchema } from '@/lib/server/user-schemas';
+import { jsonError, parseJsonBody } from '@/lib/server/http';
+import { hasCompatibleSamples, identifyFace, toMatchResponse } from '@/lib/server/face-matching';
+import { getSettings } from '@/lib/server/settings-repository';
+import { deriveTrustedDescriptor, FacePipelineError } from '@/lib/server/face-pipeline';
+import type { ServerFaceDescriptor } from '@/lib/server/face-pipeline';
+import { enforceLiveness } from '@/lib/server/liveness';
+import { enforceRateLimit, faceLoginLimiter } from '@/lib/server/rate-limit';
+import { getDistanceCalibration, recordMatchObservation } from '@/lib/server/calibration';
+import { startSession } from '@/lib/server/session';
+
+// Recibe la captura (imagen + descriptor del cliente) y responde solo con la decisión y su motivo;
+// los candidatos y sus distancias se registran en el servidor. La comparación usa el descriptor recalculado en el servidor. Si hay
+// coincidencia se inicia la sesión del usuario reconocido.
+export async function POST(request: Request) {
+  const limited = enforceRateLimit(request, faceLoginLimiter);
+  if (limited) return limited;
+
+  const { data, error } = await parseJsonBody(request, FaceLoginSchema);
+  if (error) return error;
+
+  const { recognition, login } = await getSettings();
+  if (login.policy === 'verification') {
+    return jsonError('El inicio de sesión requiere indicar tu cuenta antes de verificar el rostro.', 403);
+  }
+
+  const users = await getUserRepository().list();
+  if (users.length === 0) {
+    return jsonError('No hay usuarios registrados. Por favor, regístrate.', 404);
+  }
+  if (!users.some(user => user.faceSamples.length > 0)) {
+    return jsonError('Ningún usuario registrado tiene descriptores faciales para comparación. Vuelve a registrarte o contacta al administrador.', 409);
+  }
+
+  let computed: ServerFaceDescriptor;
+  try {
+    computed = await deriveTrustedDescriptor(data.faceImageUri, data.faceDescriptor);
+  } catch (pipelineError) {
+    if (pipelineError instanceof FacePipelineError) return jsonError(pipelineError.message, pipelineError.status);
+    throw pipelineError;
+  }
+  if (!users.some(user => hasCompatibleSamples(user, computed.descriptorVersion))) {
+    return jsonError('Los rostros registrados se calcularon con otra versión del modelo facial. Un administrador debe migrarlos antes de poder iniciar sesión.', 409);
+  }
+
+  const livenessError = await enforceLiveness(data, computed.descriptor);
+  if (livenessError) return livenessError;
+
+  const result = identifyFace(users, computed, {
+    threshold: recognition.matchThreshold,
+    ambiguityMargin: recognition.ambiguityMargin,
+    claimedEmail: data.claimedEmail,
+    calibration: await getDistanceCalibration(),
+  });
+  if (result.decision === 'match' && result.userId) {
+    await recordMatchObservation('identification', users, computed, result.userId);
+    return startSession(NextResponse.json(toMatchResponse(result)), result.userId);
+  }
+  const candidates = result.candidates.map(c => `${c.userId} ${c.distance.toFixed(3)}${c.falseMatchProbability !== null ? ` (FAR ${c.falseMatchProbability.toExponential(1)})` : ''}`);
+  console.warn(`Identificación rechazada (${result.reason}, umbral ${result.threshold}); candidatos: ${candidates.join(', ') || 'ninguno'}.`);
+  return NextResponse.json(toMatchResponse(result));
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import type { FaceVerificationResult } from '@/types';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { FaceVerifySchema } from '@/lib/server/user-schemas';
+import { jsonError, parseJsonBody } from '@/lib/server/http';
+import { hasCompatibleSamples, toMatchResponse, verifyFace } from '@/lib/server/face-matching';
+import { getSettings } from '@/lib/server/settings-repository';
+import { deriveTrustedDescriptor, FacePipelineError } from '@/lib/server/face-pipeline';
+import type { ServerFaceDescriptor } from '@/lib/server/face-pipeline';
+import { enforceLiveness } from '@/lib/server/liveness';
+import { enforceRateLimit, faceLoginLimiter } from '@/lib/server/rate-limit';
+import { getDistanceCalibration, recordMatchObservation } from '@/lib/server/calibration';
+import { startSession } from '@/lib/server/session';
+
+const NO_MATCH: FaceVerificationResult = { decision: 'no_match', reason: 'above_threshold', userId: null };
+
+// Verificación 1:1: compara la captura solo con la galería de la cuenta indicada por correo, con su
+// propio umbral (`recognition.verificationThreshold`), más estricto que el de la identificación 1:N.
+// Si coincide se inicia la sesión de esa cuenta. La ruta no exige sesión, así que un correo sin
+// cuenta (o una cuenta sin muestras comparables) recibe la misma respuesta que un rostro que no
+// coincide, y solo después de recorrer el mismo pipeline: nadie puede averiguar qué correos existen.
+export async function POST(request: Request) {
+  const limited = enforceRateLimit(request, faceLoginLimiter);
+  if (limited) return limited;
+
+  const { data, error } = await parseJsonBody(request, FaceVerifySchema);
+  if (error) return error;
+
+  const { login, recognition } = await getSettings();
+  if (login.policy === 'identification') {
+    return jsonError('La verificación por cuenta no está habilitada. Inicia sesión solo con tu rostro.', 403);
+  }
+
+  let computed: ServerFaceDescriptor;
+  try {
+    computed = await deriveTrustedDescriptor(data.faceImageUri, data.faceDescriptor);
+  } catch (pipelineError) {
+    if (pipelineError instanceof FacePipelineError) return jsonError(pipelineError.message, pipelineError.status);
+    throw pipelineError;
+  }
+
+  const livenessError = await enforceLiveness(data, computed.descriptor);
+  if (livenessError) return livenessError;
+
+  const user = await getUserRepository().findByEmail(data.email);
+  if (!user) {
+    console.warn('Verificación rechazada: no existe una cuenta con el correo indicado.');
+    return NextResponse.json(NO_MATCH);
+  }
+  if (!hasCompatibleSamples(user, computed.descriptorVersion)) {
+    console.warn(`Verificación rechazada para ${user.id}: no tiene muestras de la versión actual de los descriptores y debe volver a registrarse.`);
+    return NextResponse.json(NO_MATCH);
+  }
+
+  const result = verifyFace(user, computed, {
+    threshold: recognition.verificationThreshold,
+    calibration: await getDistanceCalibration(),
+  });
+  if (result.decision === 'match') {
+    await recordMatchObservation('verification', [user], computed, user.id);
+    return startSession(NextResponse.json(toMatchResponse(result)), user.id);
+  }
+  console.warn(`Verificación rechazada para ${user.id}; distancia ${result.distance.toFixed(3)} (umbral ${result.threshold}).`);
+  return NextResponse.json(toMatchResponse(result));
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getSettings } from '@/lib/server/settings-repository';
+import { jsonError } from '@/lib/server/http';
+import { issueLivenessChallenge } from '@/lib/server/liveness';
+import { enforceRateLimit, livenessNonceLimiter } from '@/lib/server/rate-limit';
+
+// Emite la secuencia de retos para el siguiente intento de inicio de sesión. La respuesta se
+// verifica en `/api/auth/face-login` o `/api/auth/face-verify` junto con la captura.
+export async function POST(request: Request) {
+  const limited = enforceRateLimit(request, livenessNonceLimiter);
+  if (limited) return limited;
+
+  const { liveness } = await getSettings();
+  if (liveness.challengeCount === 0) {
+    return jsonError('La configuración actual no exige retos de prueba de vida.', 409);
+  }
+  const challenge = await issueLivenessChallenge(liveness.challengeCount);
+  return NextResponse.json({ challenge }, { status: 201 });
+}
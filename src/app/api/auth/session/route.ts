@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { toUserProfile } from '@/lib/public-user';
+import { getSessionUser } from '@/lib/server/auth';
+import { endSession } from '@/lib/server/session';
+
+// Usuario de la sesión actual; null si no hay sesión o caducó. El navegador no puede leer la
+// cookie, así que es la única forma de saber con qué cuenta está identificado.
+export async function GET(request: Request) {
+  const user = await getSessionUser(request);
+  return NextResponse.json({ user: user ? toUserProfile(user) : null });
+}
+
+// Cierra la sesión.
+export async function DELETE() {
+  return endSession(new NextResponse(null, { status: 204 }));
+}
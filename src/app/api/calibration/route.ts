@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/server/auth';
+import { jsonError } from '@/lib/server/http';
+import { getSettings } from '@/lib/server/settings-repository';
+import { buildCalibrationReport } from '@/lib/server/calibration';
+import { CALIBRATION_TARGET_FARS, DEFAULT_TARGET_FAR } from '@/lib/face/calibration';
+
+// Calibración de los umbrales de coincidencia y de verificación para /admin/settings: estadísticas de distancias genuinas
+// e impostoras, probabilidad de falsa coincidencia por distancia y umbral recomendado para la FAR
+// objetivo indicada en `?targetFar=`.
+export async function GET(request: Request) {
+  const { error } = await requireAdmin(request);
+  if (error) return error;
+
+  const param = new URL(request.url).searchParams.get('targetFar');
+  const targetFar = param === null ? DEFAULT_TARGET_FAR : Number(param);
+  if (!(CALIBRATION_TARGET_FARS as readonly number[]).includes(targetFar)) {
+    return jsonError('La tasa de falsa aceptación objetivo no es válida.', 400);
+  }
+
+  const { recognition } = await getSettings();
+  return NextResponse.json({ calibration: await buildCalibrationReport(targetFar, recognition) });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/server/auth';
+import { getDescriptorMigrationReport, migrateDescriptors } from '@/lib/server/descriptor-migration';
+
+// Estado de las galerías frente a la versión actual del pipeline de descriptores.
+export async function GET(request: Request) {
+  const { error } = await requireAdmin(request);
+  if (error) return error;
+
+  return NextResponse.json({ report: await getDescriptorMigrationReport() });
+}
+
+// Recalcula las muestras desactualizadas a partir de sus imágenes guardadas.
+export async function POST(request: Request) {
+  const { user, error } = await requireAdmin(request);
+  if (error) return error;
+
+  console.log(`Migración de descriptores iniciada por el administrador ${user.id}.`);
+  return NextResponse.json({ result: await migrateDescriptors() });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/server/auth';
+import { checkModelIntegrity } from '@/lib/server/model-integrity';
+
+// Comprobación de los pesos de `public/models` contra `integrity.json` para /admin/settings.
+export async function GET(request: Request) {
+  const { error } = await requireAdmin(request);
+  if (error) return error;
+
+  const report = await checkModelIntegrity();
+  if (!report.valid) {
+    console.warn(`Verificación de integridad de modelos fallida: ${report.failures.map(failure => failure.file).join(', ')}`);
+  }
+  return NextResponse.json({ report });
+}
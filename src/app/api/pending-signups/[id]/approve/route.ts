@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import type { User } from '@/types';
+import { DuplicateEmailError, getUserRepository } from '@/lib/server/user-repository';
+import { getPendingSignupRepository } from '@/lib/server/pending-signup-repository';
+import { buildNewUser } from '@/lib/server/enrollment';
+import { toUserProfile } from '@/lib/public-user';
+import { jsonError } from '@/lib/server/http';
+import { requireAdmin } from '@/lib/server/auth';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Aprueba un registro retenido: el administrador confirma que son personas distintas (p. ej.
+// gemelos) y se crea la cuenta con la muestra calculada al registrarse.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { user: admin, error } = await requireAdmin(request);
+  if (error) return error;
+
+  const pendingSignups = getPendingSignupRepository();
+  const pendingSignup = await pendingSignups.findById(id);
+  if (!pendingSignup) return jsonError('Registro pendiente no encontrado.', 404);
+
+  let newUser: User;
+  try {
+    newUser = await getUserRepository().create(buildNewUser(pendingSignup, false));
+  } catch (createError) {
+    if (createError instanceof DuplicateEmailError) return jsonError('Ya existe un usuario con este correo electrónico.', 409);
+    throw createError;
+  }
+  await pendingSignups.remove(id);
+
+  console.log(`Registro ${id} aprobado por el administrador ${admin.id}; usuario ${newUser.id} creado.`);
+  return NextResponse.json({ user: toUserProfile(newUser) }, { status: 201 });
+}
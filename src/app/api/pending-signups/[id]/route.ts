@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getPendingSignupRepository } from '@/lib/server/pending-signup-repository';
+import { jsonError } from '@/lib/server/http';
+import { requireAdmin } from '@/lib/server/auth';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Rechaza un registro retenido: se descarta sin crear la cuenta.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { user, error } = await requireAdmin(request);
+  if (error) return error;
+
+  const removed = await getPendingSignupRepository().remove(id);
+  if (!removed) return jsonError('Registro pendiente no encontrado.', 404);
+
+  console.log(`Registro ${id} rechazado por el administrador ${user.id}.`);
+  return new NextResponse(null, { status: 204 });
+}
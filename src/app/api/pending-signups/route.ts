@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getPendingSignupRepository } from '@/lib/server/pending-signup-repository';
+import { toPublicPendingSignup } from '@/lib/server/enrollment';
+import { requireAdmin } from '@/lib/server/auth';
+
+export async function GET(request: Request) {
+  const { error } = await requireAdmin(request);
+  if (error) return error;
+
+  const pendingSignups = await getPendingSignupRepository().list();
+  return NextResponse.json({ pendingSignups: pendingSignups.map(toPublicPendingSignup) });
+}
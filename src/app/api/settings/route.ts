@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import type { AppSettings } from '@/types';
+import { DescriptorVersionChangeError, getSettings, InvalidSettingsError, updateSettings } from '@/lib/server/settings-repository';
+import { UpdateSettingsSchema } from '@/lib/server/settings-schemas';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { jsonError, parseJsonBody } from '@/lib/server/http';
+import { requireAdmin } from '@/lib/server/auth';
+
+export async function GET() {
+  return NextResponse.json({ settings: await getSettings() });
+}
+
+// Un cambio de detección que invalida las muestras registradas se rechaza con 409 salvo que el
+// administrador lo confirme con `?confirmDescriptorChange=1`.
+export async function PUT(request: Request) {
+  const { user, error: authError } = await requireAdmin(request);
+  if (authError) return authError;
+
+  const { data, error } = await parseJsonBody(request, UpdateSettingsSchema);
+  if (error) return error;
+
+  const confirmed = new URL(request.url).searchParams.get('confirmDescriptorChange') === '1';
+  const sampleCount = (await getUserRepository().list()).reduce((count, existing) => count + existing.faceSamples.length, 0);
+  let settings: AppSettings;
+  try {
+    settings = await updateSettings(data, { allowDescriptorChange: confirmed || sampleCount === 0 });
+  } catch (updateError) {
+    if (updateError instanceof InvalidSettingsError) return jsonError(updateError.message, 400);
+    if (updateError instanceof DescriptorVersionChangeError) {
+      return jsonError(`Hay ${sampleCount} muestras faciales calculadas con el detector actual. Con el nuevo quedarán fuera de las comparaciones, y sus usuarios no podrán iniciar sesión, hasta recalcularlas desde Gestión de Usuarios.`, 409);
+    }
+    throw updateError;
+  }
+  console.log(`Configuración actualizada por el administrador ${user.id}.`);
+  return NextResponse.json({ settings });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { toUserProfile } from '@/lib/public-user';
+import { UpdateUserFaceSchema } from '@/lib/server/user-schemas';
+import { jsonError, parseJsonBody } from '@/lib/server/http';
+import { requireAdmin, requireUser } from '@/lib/server/auth';
+import { createTrustedFaceSample } from '@/lib/server/face-samples';
+import { FacePipelineError } from '@/lib/server/face-pipeline';
+import type { FaceSample } from '@/types';
+import { enhanceFaceImage } from '@/ai/flows/enhance-face-image';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// El perfil con imágenes solo lo ven el propio usuario y los administradores.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { user: actor, error: authError } = await requireUser(request);
+  if (authError) return authError;
+  if (actor.id !== id && !actor.isAdmin) {
+    return jsonError('Solo un administrador puede ver el perfil de otro usuario.', 403);
+  }
+
+  const user = await getUserRepository().findById(id);
+  if (!user) return jsonError('Usuario no encontrado.', 404);
+  return NextResponse.json({ user: toUserProfile(user) });
+}
+
+// Reemplaza el rostro de inicio de sesión de un usuario (usado desde el panel de administración).
+// La galería queda reducida a la nueva captura; para añadir muestras se usa `/samples`.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { error: authError } = await requireAdmin(request);
+  if (authError) return authError;
+
+  const { data, error } = await parseJsonBody(request, UpdateUserFaceSchema);
+  if (error) return error;
+
+  const repository = getUserRepository();
+  if (!(await repository.findById(id))) {
+    return jsonError('Usuario no encontrado.', 404);
+  }
+
+  let faceSample: FaceSample;
+  try {
+    faceSample = await createTrustedFaceSample(data, 'admin');
+  } catch (pipelineError) {
+    if (pipelineError instanceof FacePipelineError) return jsonError(pipelineError.message, pipelineError.status);
+    throw pipelineError;
+  }
+
+  let enhancedFaceImageUri: string;
+  try {
+    ({ enhancedPhotoDataUri: enhancedFaceImageUri } = await enhanceFaceImage({ photoDataUri: data.faceImageUri }));
+  } catch (enhanceError) {
+    console.error("Error al mejorar la imagen facial:", enhanceError);
+    return jsonError('Falló la mejora de la nueva imagen facial. Asegúrate de que la imagen sea clara.', 502);
+  }
+
+  const user = await repository.update(id, {
+    faceImageUri: data.faceImageUri,
+    enhancedFaceImageUri,
+    faceSamples: [faceSample],
+  });
+  if (!user) return jsonError('Usuario no encontrado.', 404);
+
+  return NextResponse.json({ user: toUserProfile(user) });
+}
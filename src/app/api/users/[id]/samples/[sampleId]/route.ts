@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import type { User } from '@/types';
+import { FaceSampleChangeError, getUserRepository } from '@/lib/server/user-repository';
+import { toUserProfile } from '@/lib/public-user';
+import { jsonError } from '@/lib/server/http';
+import { requireAdmin } from '@/lib/server/auth';
+
+type RouteContext = { params: Promise<{ id: string; sampleId: string }> };
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id, sampleId } = await params;
+  const { error: authError } = await requireAdmin(request);
+  if (authError) return authError;
+
+  let user: User | null;
+  try {
+    user = await getUserRepository().updateSamples(id, samples => {
+      const remaining = samples.filter(sample => sample.id !== sampleId);
+      if (remaining.length === samples.length) {
+        throw new FaceSampleChangeError('Muestra facial no encontrada.', 404);
+      }
+      if (remaining.length === 0) {
+        throw new FaceSampleChangeError('El usuario debe conservar al menos una muestra facial para poder iniciar sesión.', 409);
+      }
+      return remaining;
+    });
+  } catch (changeError) {
+    if (changeError instanceof FaceSampleChangeError) return jsonError(changeError.message, changeError.status);
+    throw changeError;
+  }
+  if (!user) return jsonError('Usuario no encontrado.', 404);
+
+  return NextResponse.json({ user: toUserProfile(user) });
+}
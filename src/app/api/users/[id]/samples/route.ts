@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { toUserProfile } from '@/lib/public-user';
+import { FaceSampleInputSchema } from '@/lib/server/user-schemas';
+import { jsonError, parseJsonBody } from '@/lib/server/http';
+import { requireAdmin } from '@/lib/server/auth';
+import { createTrustedFaceSample } from '@/lib/server/face-samples';
+import { FacePipelineError } from '@/lib/server/face-pipeline';
+import type { FaceSample } from '@/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Añade una muestra a la galería facial del usuario sin tocar las existentes.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { error: authError } = await requireAdmin(request);
+  if (authError) return authError;
+
+  const { data, error } = await parseJsonBody(request, FaceSampleInputSchema);
+  if (error) return error;
+
+  const repository = getUserRepository();
+  if (!(await repository.findById(id))) return jsonError('Usuario no encontrado.', 404);
+
+  let faceSample: FaceSample;
+  try {
+    faceSample = await createTrustedFaceSample(data, 'admin');
+  } catch (pipelineError) {
+    if (pipelineError instanceof FacePipelineError) return jsonError(pipelineError.message, pipelineError.status);
+    throw pipelineError;
+  }
+
+  const user = await repository.updateSamples(id, samples => [...samples, faceSample]);
+  if (!user) return jsonError('Usuario no encontrado.', 404);
+
+  return NextResponse.json({ user: toUserProfile(user) }, { status: 201 });
+}
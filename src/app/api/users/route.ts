@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import type { SignupOutcome, User } from '@/types';
+import { DuplicateEmailError, getUserRepository } from '@/lib/server/user-repository';
+import { getPendingSignupRepository } from '@/lib/server/pending-signup-repository';
+import { getSettings } from '@/lib/server/settings-repository';
+import { buildNewUser } from '@/lib/server/enrollment';
+import { findFaceCollision } from '@/lib/server/face-matching';
+import { toPublicUser, toUserProfile } from '@/lib/public-user';
+import { CreateUserSchema } from '@/lib/server/user-schemas';
+import { jsonError, parseJsonBody } from '@/lib/server/http';
+import { requireAdmin } from '@/lib/server/auth';
+import { startSession } from '@/lib/server/session';
+import { createTrustedFaceSample } from '@/lib/server/face-samples';
+import type { TrustedFaceSample } from '@/lib/server/face-samples';
+import { FacePipelineError } from '@/lib/server/face-pipeline';
+import { enhanceFaceImage } from '@/ai/flows/enhance-face-image';
+import { getMatchObservationRepository } from '@/lib/server/match-observation-repository';
+import { invalidateCalibration } from '@/lib/server/calibration';
+
+// Solo administradores: la lista incluye correos e imágenes faciales de todas las cuentas.
+export async function GET(request: Request) {
+  const { error } = await requireAdmin(request);
+  if (error) return error;
+
+  const users = await getUserRepository().list();
+  return NextResponse.json({ users: users.map(toUserProfile) });
+}
+
+export async function POST(request: Request) {
+  const { data, error } = await parseJsonBody(request, CreateUserSchema);
+  if (error) return error;
+
+  // Comprobación anticipada para no procesar la imagen en vano; la definitiva la hace `create`.
+  const repository = getUserRepository();
+  if (await repository.findByEmail(data.email)) {
+    return jsonError('Ya existe un usuario con este correo electrónico.', 409);
+  }
+  const pendingSignups = getPendingSignupRepository();
+  if (await pendingSignups.findByEmail(data.email)) {
+    return jsonError('Ya hay un registro con este correo electrónico pendiente de revisión.', 409);
+  }
+
+  let faceSample: TrustedFaceSample;
+  try {
+    faceSample = await createTrustedFaceSample(data, 'signup');
+  } catch (pipelineError) {
+    if (pipelineError instanceof FacePipelineError) return jsonError(pipelineError.message, pipelineError.status);
+    throw pipelineError;
+  }
+
+  // El mismo rostro no puede registrar varias cuentas con correos distintos. Al solicitante no se
+  // le dice con qué cuenta coincide; eso solo lo ve el administrador en la cola de revisión.
+  const existingUsers = await repository.list();
+  const { enrollment, recognition } = await getSettings();
+  const collision = findFaceCollision(existingUsers, faceSample, recognition.matchThreshold);
+  if (collision && enrollment.duplicateFacePolicy === 'block') {
+    console.warn(`Registro bloqueado: el rostro coincide con el usuario ${collision.userId} (distancia ${collision.distance.toFixed(3)}).`);
+    return jsonError('Este rostro ya está registrado en otra cuenta. Si crees que es un error, contacta al administrador.', 409);
+  }
+
+  let enhancedFaceImageUri: string;
+  try {
+    ({ enhancedPhotoDataUri: enhancedFaceImageUri } = await enhanceFaceImage({ photoDataUri: data.faceImageUri }));
+  } catch (enhanceError) {
+    console.error("Error al mejorar la imagen facial:", enhanceError);
+    return jsonError('Falló la mejora de la imagen facial. Intenta de nuevo con una imagen más clara.', 502);
+  }
+
+  const newUserInput = {
+    name: data.name,
+    email: data.email,
+    faceImageUri: data.faceImageUri,
+    enhancedFaceImageUri,
+    faceSample,
+  };
+
+  if (collision) {
+    const pendingSignup = await pendingSignups.create({
+      ...newUserInput,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      collision,
+    });
+    console.warn(`Registro ${pendingSignup.id} retenido para revisión: coincide con el usuario ${collision.userId}.`);
+    const outcome: SignupOutcome = { status: 'pending_review', pendingSignupId: pendingSignup.id };
+    return NextResponse.json(outcome, { status: 202 });
+  }
+
+  // El primer usuario registrado se convierte en administrador. Lo decide `create` dentro de la
+  // escritura serializada: dos registros simultáneos sobre una base vacía no pueden ser ambos admin.
+  // Un usuario antiguo subido desde el navegador no cuenta: cualquier navegador con datos viejos en
+  // localStorage podría, si no, crear el administrador de un servidor vacío.
+  let newUser: User;
+  try {
+    newUser = await repository.create(buildNewUser(newUserInput, false), { promoteFirstUser: !data.legacyImport });
+  } catch (createError) {
+    if (createError instanceof DuplicateEmailError) return jsonError('Ya existe un usuario con este correo electrónico.', 409);
+    throw createError;
+  }
+
+  const outcome: SignupOutcome = { status: 'created', user: toPublicUser(newUser) };
+  const response = NextResponse.json(outcome, { status: 201 });
+  return data.legacyImport ? response : startSession(response, newUser.id);
+}
+
+// Restablece la base de datos de usuarios. Es la única vía para borrar enrolamientos.
+export async function DELETE(request: Request) {
+  const { user, error } = await requireAdmin(request);
+  if (error) return error;
+
+  console.warn(`Base de datos de usuarios restablecida por el administrador ${user.id}.`);
+  await getUserRepository().clear();
+  await getPendingSignupRepository().clear();
+  await getMatchObservationRepository().clear();
+  invalidateCalibration();
+  return new NextResponse(null, { status: 204 });
+}
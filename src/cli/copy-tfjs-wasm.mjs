@@ -0,0 +1,25 @@
+import { promises as fs } from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+
+// Copia el binario del backend WASM de TensorFlow.js a `public/tfjs/`, desde donde lo sirve Next.js
+// al worker de detección (ver src/workers/tf-backend.ts). Se ejecuta tras `npm install`, así que el
+// binario siempre es el de la versión instalada de @tensorflow/tfjs-backend-wasm y no se versiona.
+//
+// Es JavaScript plano, sin tsx ni alias `@/`, para que funcione también con `npm install --omit=dev`.
+
+const WASM_FILE = 'tfjs-backend-wasm.wasm';
+
+async function main() {
+  const require = createRequire(import.meta.url);
+  const source = require.resolve(`@tensorflow/tfjs-backend-wasm/dist/${WASM_FILE}`);
+  const targetDir = path.resolve('public', 'tfjs');
+  await fs.mkdir(targetDir, { recursive: true });
+  await fs.copyFile(source, path.join(targetDir, WASM_FILE));
+  console.log(`${path.relative(process.cwd(), source)} -> ${path.relative(process.cwd(), path.join(targetDir, WASM_FILE))}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
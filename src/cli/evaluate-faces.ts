@@ -0,0 +1,186 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import * as faceapi from 'face-api.js';
+import type { DetectorSettings, FaceDetectorKind, MultipleFacePolicy } from '@/types';
+import { DEFAULT_DETECTOR_SETTINGS, TINY_INPUT_SIZES } from '@/lib/face/detector';
+import { DEFAULT_THRESHOLD_STEP, evaluateDistances, thresholdMetrics } from '@/lib/face/evaluation';
+import { computeFaceDescriptor, FacePipelineError } from '@/lib/server/face-pipeline';
+import { getSettings } from '@/lib/server/settings-repository';
+import { renderEvaluationHtml } from '@/cli/evaluation-report';
+import type { EvaluationReport } from '@/cli/evaluation-report';
+
+// Evaluación sin conexión del pipeline de reconocimiento sobre un conjunto etiquetado:
+//
+//   npm run evaluate:faces -- <carpeta> [--out <carpeta>] [--detector tiny|ssd|mtcnn] ...
+//
+// La carpeta contiene una subcarpeta por persona con sus fotos en PNG. Cada imagen pasa por el
+// mismo pipeline que usa el servidor (y FaceCapture en el navegador); después se comparan todos los
+// pares de descriptores y se calculan FAR/FRR, EER y la curva ROC.
+
+const USAGE = `Uso: npm run evaluate:faces -- <carpeta> [opciones]
+
+  <carpeta>                   Una subcarpeta por persona con sus imágenes PNG
+  --out <carpeta>             Dónde escribir evaluation.json y evaluation.html (por defecto, ./evaluation)
+  --detector <tiny|ssd|mtcnn> Detector de rostros (por defecto, ${DEFAULT_DETECTOR_SETTINGS.kind})
+  --input-size <n>            Tamaño de entrada de TinyFaceDetector (${TINY_INPUT_SIZES.join(', ')})
+  --score-threshold <n>       Confianza mínima de la detección
+  --tiny-landmarks            Usa el modelo de landmarks reducido
+  --multiple-faces <política> reject, largest o central (por defecto, largest)
+  --step <n>                  Paso entre umbrales evaluados (por defecto, ${DEFAULT_THRESHOLD_STEP})
+`;
+
+interface LabeledDescriptor {
+  label: string;
+  file: string;
+  descriptor: number[];
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) fail(`Valor no válido para --${name}: ${value}`);
+  return parsed;
+}
+
+function parseDetector(values: Record<string, string | boolean | undefined>): DetectorSettings {
+  const kind = (values.detector as string | undefined) ?? DEFAULT_DETECTOR_SETTINGS.kind;
+  if (!['tiny', 'ssd', 'mtcnn'].includes(kind)) fail(`Detector desconocido: ${kind}`);
+  const inputSize = parseNumber(values['input-size'] as string | undefined, 'input-size') ?? DEFAULT_DETECTOR_SETTINGS.inputSize;
+  if (!(TINY_INPUT_SIZES as readonly number[]).includes(inputSize)) fail(`Tamaño de entrada no admitido: ${inputSize}`);
+  // En un conjunto de evaluación es habitual que alguien aparezca al fondo: por defecto se usa el
+  // rostro más grande en lugar de descartar la imagen.
+  const multipleFacePolicy = (values['multiple-faces'] as string | undefined) ?? 'largest';
+  if (!['reject', 'largest', 'central'].includes(multipleFacePolicy)) fail(`Política desconocida: ${multipleFacePolicy}`);
+  return {
+    kind: kind as FaceDetectorKind,
+    inputSize,
+    scoreThreshold: parseNumber(values['score-threshold'] as string | undefined, 'score-threshold') ?? DEFAULT_DETECTOR_SETTINGS.scoreThreshold,
+    useTinyLandmarks: values['tiny-landmarks'] === true,
+    multipleFacePolicy: multipleFacePolicy as MultipleFacePolicy,
+    backend: DEFAULT_DETECTOR_SETTINGS.backend, // El pipeline del servidor usa siempre CPU
+  };
+}
+
+async function listLabeledImages(root: string): Promise<{ label: string; file: string }[]> {
+  const entries = await fs.readdir(root, { withFileTypes: true });
+  const images: { label: string; file: string }[] = [];
+  for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const files = (await fs.readdir(path.join(root, entry.name))).filter(f => !f.startsWith('.')).sort();
+    images.push(...files.map(file => ({ label: entry.name, file: path.join(entry.name, file) })));
+  }
+  return images;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'evaluation' },
+      detector: { type: 'string' },
+      'input-size': { type: 'string' },
+      'score-threshold': { type: 'string' },
+      'tiny-landmarks': { type: 'boolean' },
+      'multiple-faces': { type: 'string' },
+      step: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail('Indica la carpeta de imágenes etiquetadas.');
+
+  const root = path.resolve(positionals[0]);
+  const detector = parseDetector(values);
+  const step = parseNumber(values.step, 'step') ?? DEFAULT_THRESHOLD_STEP;
+  if (step <= 0 || step > 0.5) fail(`Paso no válido: ${step}`);
+
+  const images = await listLabeledImages(root);
+  if (images.length === 0) fail(`No hay imágenes en las subcarpetas de ${root}`);
+
+  const descriptors: LabeledDescriptor[] = [];
+  const failures: EvaluationReport['dataset']['failures'] = [];
+  for (const [index, { label, file }] of images.entries()) {
+    process.stdout.write(`[${index + 1}/${images.length}] ${file}\r`);
+    if (path.extname(file).toLowerCase() !== '.png') {
+      failures.push({ file, reason: 'No es un PNG' });
+      continue;
+    }
+    try {
+      const data = await fs.readFile(path.join(root, file));
+      const computed = await computeFaceDescriptor(`data:image/png;base64,${data.toString('base64')}`, detector);
+      if (computed) {
+        descriptors.push({ label, file, descriptor: computed.descriptor });
+      } else {
+        failures.push({ file, reason: 'No se detectó un rostro' });
+      }
+    } catch (error) {
+      // Un error de carga de modelos afecta a todas las imágenes: no tiene sentido continuar.
+      if (error instanceof FacePipelineError && error.status !== 503) {
+        failures.push({ file, reason: error.message });
+      } else {
+        throw error;
+      }
+    }
+  }
+  process.stdout.write('\n');
+
+  const genuine: number[] = [];
+  const impostor: number[] = [];
+  for (let i = 0; i < descriptors.length; i++) {
+    for (let j = i + 1; j < descriptors.length; j++) {
+      const distance = faceapi.euclideanDistance(descriptors[i].descriptor, descriptors[j].descriptor);
+      (descriptors[i].label === descriptors[j].label ? genuine : impostor).push(distance);
+    }
+  }
+  if (genuine.length === 0 || impostor.length === 0) {
+    fail('Hacen falta al menos dos identidades y dos imágenes válidas de alguna de ellas.');
+  }
+
+  const metrics = evaluateDistances(genuine, impostor, step);
+  // El umbral de identificación configurado en `.data/settings.json`, o el valor por defecto.
+  const { recognition } = await getSettings();
+  const sortedGenuine = [...genuine].sort((a, b) => a - b);
+  const sortedImpostor = [...impostor].sort((a, b) => a - b);
+  const report: EvaluationReport = {
+    generatedAt: new Date().toISOString(),
+    dataset: {
+      root,
+      identities: new Set(images.map(image => image.label)).size,
+      images: images.length,
+      descriptors: descriptors.length,
+      failures,
+    },
+    detector,
+    pairs: { genuine: genuine.length, impostor: impostor.length },
+    metrics,
+    configured: [
+      { name: 'Identificación', metrics: thresholdMetrics(sortedGenuine, sortedImpostor, recognition.matchThreshold) },
+      { name: 'Verificación', metrics: thresholdMetrics(sortedGenuine, sortedImpostor, recognition.verificationThreshold) },
+    ],
+  };
+
+  const outDir = path.resolve(values.out!);
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, 'evaluation.json'), JSON.stringify(report, null, 2));
+  await fs.writeFile(path.join(outDir, 'evaluation.html'), renderEvaluationHtml(report));
+
+  console.log(`Descriptores: ${descriptors.length}/${images.length}. Pares: ${genuine.length} genuinos, ${impostor.length} impostores.`);
+  console.log(`EER ${(metrics.eer.rate * 100).toFixed(2)} % con umbral ${metrics.eer.threshold.toFixed(2)}.`);
+  for (const { name, metrics: point } of report.configured) {
+    console.log(`${name} (${point.threshold}): FAR ${(point.far * 100).toFixed(2)} %, FRR ${(point.frr * 100).toFixed(2)} %.`);
+  }
+  console.log(`Informe escrito en ${outDir}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
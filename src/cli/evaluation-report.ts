@@ -0,0 +1,156 @@
+import type { DetectorSettings } from '@/types';
+import type { EvaluationMetrics, ThresholdMetrics } from '@/lib/face/evaluation';
+
+// Resultado completo de una evaluación, tal como se guarda en el JSON y se presenta en el HTML.
+export interface EvaluationReport {
+  generatedAt: string;
+  dataset: {
+    root: string;
+    identities: number;
+    images: number;
+    descriptors: number;
+    failures: { file: string; reason: string }[]; // Imágenes sin descriptor (sin rostro, varios, no PNG...)
+  };
+  detector: DetectorSettings;
+  pairs: { genuine: number; impostor: number };
+  metrics: EvaluationMetrics;
+  // Los umbrales que usa hoy la aplicación, evaluados sobre este conjunto.
+  configured: { name: string; metrics: ThresholdMetrics }[];
+}
+
+const CHART_WIDTH = 520;
+const CHART_HEIGHT = 300;
+const PADDING = 40;
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(2)} %`;
+}
+
+// Gráfico de líneas en SVG con ejes de 0 a `maxX` y de 0 a `maxY`.
+function lineChart(
+  series: { label: string; color: string; points: { x: number; y: number }[] }[],
+  axes: { maxX: number; maxY: number; xLabel: string; yLabel: string },
+  markers: { x: number; label: string }[] = []
+): string {
+  const w = CHART_WIDTH - 2 * PADDING;
+  const h = CHART_HEIGHT - 2 * PADDING;
+  const sx = (x: number) => PADDING + (x / axes.maxX) * w;
+  const sy = (y: number) => CHART_HEIGHT - PADDING - (y / axes.maxY) * h;
+  const paths = series.map(({ color, points }) =>
+    `<polyline fill="none" stroke="${color}" stroke-width="2" points="${points.map(p => `${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`).join(' ')}" />`
+  );
+  const lines = markers.map(({ x, label }) =>
+    `<line x1="${sx(x)}" x2="${sx(x)}" y1="${PADDING}" y2="${CHART_HEIGHT - PADDING}" stroke="#888" stroke-dasharray="4 3" />`
+    + `<text x="${sx(x) + 4}" y="${PADDING + 12}" font-size="11" fill="#555">${escapeHtml(label)}</text>`
+  );
+  const legend = series.map(({ label, color }, i) =>
+    `<text x="${CHART_WIDTH - PADDING - 120}" y="${PADDING + 14 + i * 16}" font-size="12" fill="${color}">■ ${escapeHtml(label)}</text>`
+  );
+  return `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+  <rect x="${PADDING}" y="${PADDING}" width="${w}" height="${h}" fill="none" stroke="#ccc" />
+  <text x="${CHART_WIDTH / 2}" y="${CHART_HEIGHT - 8}" font-size="12" text-anchor="middle">${escapeHtml(axes.xLabel)} (0–${axes.maxX.toFixed(2)})</text>
+  <text x="12" y="${CHART_HEIGHT / 2}" font-size="12" text-anchor="middle" transform="rotate(-90 12 ${CHART_HEIGHT / 2})">${escapeHtml(axes.yLabel)} (0–${axes.maxY.toFixed(2)})</text>
+  ${lines.join('\n  ')}
+  ${paths.join('\n  ')}
+  ${legend.join('\n  ')}
+</svg>`;
+}
+
+function histogramChart(metrics: EvaluationMetrics): string {
+  const { histogram } = metrics;
+  const genuineTotal = Math.max(1, metrics.genuine.count);
+  const impostorTotal = Math.max(1, metrics.impostor.count);
+  // Cada distribución se normaliza por su número de pares: hay muchos más impostores que genuinos.
+  const toPoints = (key: 'genuine' | 'impostor', total: number) =>
+    histogram.map(bin => ({ x: (bin.from + bin.to) / 2, y: bin[key] / total }));
+  const genuine = toPoints('genuine', genuineTotal);
+  const impostor = toPoints('impostor', impostorTotal);
+  const maxY = Math.max(0.01, ...genuine.map(p => p.y), ...impostor.map(p => p.y));
+  return lineChart(
+    [
+      { label: 'Genuinos', color: '#16a34a', points: genuine },
+      { label: 'Impostores', color: '#dc2626', points: impostor },
+    ],
+    { maxX: histogram[histogram.length - 1].to, maxY, xLabel: 'Distancia', yLabel: 'Fracción de pares' },
+    [{ x: metrics.eer.threshold, label: 'EER' }]
+  );
+}
+
+export function renderEvaluationHtml(report: EvaluationReport): string {
+  const { metrics } = report;
+  const maxThreshold = metrics.curve[metrics.curve.length - 1].threshold;
+  const rateChart = lineChart(
+    [
+      { label: 'FAR', color: '#dc2626', points: metrics.curve.map(p => ({ x: p.threshold, y: p.far })) },
+      { label: 'FRR', color: '#2563eb', points: metrics.curve.map(p => ({ x: p.threshold, y: p.frr })) },
+    ],
+    { maxX: maxThreshold, maxY: 1, xLabel: 'Umbral', yLabel: 'Tasa' },
+    report.configured.map(({ name, metrics: point }) => ({ x: point.threshold, label: name }))
+  );
+  const rocChart = lineChart(
+    [{ label: 'ROC', color: '#7c3aed', points: metrics.curve.map(p => ({ x: p.far, y: 1 - p.frr })) }],
+    { maxX: 1, maxY: 1, xLabel: 'FAR', yLabel: 'Tasa de aceptación genuina (1 − FRR)' }
+  );
+  const thresholdRows = [
+    { name: 'EER', metrics: metrics.eer },
+    ...report.configured,
+  ].map(({ name, metrics: point }) =>
+    `<tr><td>${escapeHtml(name)}</td><td>${point.threshold.toFixed(2)}</td><td>${percent(point.far)}</td><td>${percent(point.frr)}</td></tr>`
+  );
+  const failureRows = report.dataset.failures.map(({ file, reason }) =>
+    `<tr><td>${escapeHtml(file)}</td><td>${escapeHtml(reason)}</td></tr>`
+  );
+  const stats = (label: string, s: EvaluationMetrics['genuine']) =>
+    `<tr><td>${label}</td><td>${s.count}</td><td>${s.mean.toFixed(3)}</td><td>${s.stdDev.toFixed(3)}</td><td>${s.min.toFixed(3)}</td><td>${s.max.toFixed(3)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8" />
+<title>Evaluación del reconocimiento facial</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; }
+  th, td { border: 1px solid #ddd; padding: 0.3rem 0.7rem; text-align: left; }
+  .charts { display: flex; flex-wrap: wrap; gap: 1.5rem; }
+</style>
+</head>
+<body>
+<h1>Evaluación del reconocimiento facial</h1>
+<p>Generado el ${escapeHtml(report.generatedAt)} sobre <code>${escapeHtml(report.dataset.root)}</code>:
+${report.dataset.identities} identidades, ${report.dataset.descriptors} de ${report.dataset.images} imágenes con descriptor,
+${report.pairs.genuine} pares genuinos y ${report.pairs.impostor} impostores.</p>
+<p>Detector: <code>${escapeHtml(JSON.stringify(report.detector))}</code></p>
+
+<h2>Umbrales</h2>
+<table>
+<tr><th></th><th>Umbral</th><th>FAR</th><th>FRR</th></tr>
+${thresholdRows.join('\n')}
+</table>
+
+<h2>Distancias</h2>
+<table>
+<tr><th></th><th>Pares</th><th>Media</th><th>Desv.</th><th>Mín.</th><th>Máx.</th></tr>
+${stats('Genuinos', metrics.genuine)}
+${stats('Impostores', metrics.impostor)}
+</table>
+
+<div class="charts">
+${histogramChart(metrics)}
+${rateChart}
+${rocChart}
+</div>
+${failureRows.length > 0 ? `
+<h2>Imágenes descartadas</h2>
+<table>
+<tr><th>Archivo</th><th>Motivo</th></tr>
+${failureRows.join('\n')}
+</table>` : ''}
+</body>
+</html>
+`;
+}
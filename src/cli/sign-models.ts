@@ -0,0 +1,88 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { integrityPayload, MODEL_INTEGRITY_FILE, MODEL_SIGNATURE_ALGORITHM, sha256Hex, WEIGHTS_MANIFEST_SUFFIX, weightsManifestPaths } from '@/lib/face/model-integrity';
+import type { ModelIntegrityManifest } from '@/lib/face/model-integrity';
+
+// Firma los pesos de `public/models` (ver src/lib/face/model-integrity.ts):
+//
+//   npm run sign:models -- --generate-key <privada.pem>
+//   npm run sign:models -- --key <privada.pem> [--dir public/models]
+//
+// La clave privada no debe salir del equipo de quien publica los modelos; la pública se configura
+// en NEXT_PUBLIC_MODEL_SIGNING_KEY.
+
+const USAGE = `Uso: npm run sign:models -- [opciones]
+
+  --generate-key <archivo>  Genera un par de claves ECDSA P-256, guarda la privada en <archivo> (PEM)
+                            y muestra la pública para NEXT_PUBLIC_MODEL_SIGNING_KEY
+  --key <archivo>           Clave privada (PEM) con la que firmar ${MODEL_INTEGRITY_FILE}
+  --dir <carpeta>           Carpeta de los modelos (por defecto, public/models)
+`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+async function generateKey(privateKeyPath: string): Promise<void> {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  await fs.writeFile(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600, flag: 'wx' });
+  const spki = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+  console.log(`Clave privada escrita en ${privateKeyPath}. Guárdala fuera del repositorio.`);
+  console.log(`NEXT_PUBLIC_MODEL_SIGNING_KEY=${spki}`);
+}
+
+async function signModels(privateKeyPath: string, dir: string): Promise<void> {
+  const privateKey = await fs.readFile(privateKeyPath, 'utf8');
+  const names = (await fs.readdir(dir)).filter(name => !name.startsWith('.') && name !== MODEL_INTEGRITY_FILE).sort();
+  if (names.length === 0) fail(`No hay archivos de modelos en ${dir}`);
+  // Un fragmento que falta dejaría su modelo firmado pero imposible de cargar.
+  for (const name of names.filter(n => n.endsWith(WEIGHTS_MANIFEST_SUFFIX))) {
+    const missing = weightsManifestPaths(JSON.parse(await fs.readFile(path.join(dir, name), 'utf8'))).filter(shard => !names.includes(shard));
+    if (missing.length > 0) fail(`${name} referencia ${missing.join(', ')}, que no están en ${dir}`);
+  }
+
+  const files: Record<string, string> = {};
+  for (const name of names) {
+    files[name] = await sha256Hex(await fs.readFile(path.join(dir, name)));
+  }
+  const unsigned: Omit<ModelIntegrityManifest, 'signature'> = {
+    version: 1,
+    algorithm: MODEL_SIGNATURE_ALGORITHM,
+    signedAt: new Date().toISOString(),
+    files,
+  };
+  // IEEE P1363 (r||s) es el formato de firma que acepta WebCrypto.
+  const signature = sign('sha256', Buffer.from(integrityPayload(unsigned)), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  const manifest: ModelIntegrityManifest = { ...unsigned, signature: signature.toString('base64') };
+  await fs.writeFile(path.join(dir, MODEL_INTEGRITY_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`${names.length} archivos firmados en ${path.join(dir, MODEL_INTEGRITY_FILE)}.`);
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      'generate-key': { type: 'string' },
+      key: { type: 'string' },
+      dir: { type: 'string', default: path.join('public', 'models') },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values['generate-key']) {
+    await generateKey(path.resolve(values['generate-key']));
+    return;
+  }
+  if (!values.key) fail('Indica la clave privada con --key o genera una con --generate-key.');
+  await signModels(path.resolve(values.key), path.resolve(values.dir!));
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import type { CalibrationOperatingPoint, CalibrationReport } from '@/types';
+import { CALIBRATION_TARGET_FARS, DEFAULT_TARGET_FAR } from '@/lib/face/calibration';
+import { fetchCalibration } from '@/lib/settings-api';
+import { ApiError } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+type CalibratedThreshold = keyof CalibrationReport['current'];
+
+interface CalibrationPanelProps {
+  // Copia el umbral recomendado al campo del formulario; se guarda con el resto de la configuración.
+  onApplyThreshold: (target: CalibratedThreshold, threshold: number) => void;
+}
+
+const THRESHOLD_LABELS: Record<CalibratedThreshold, string> = {
+  identification: 'Identificación',
+  verification: 'Verificación',
+};
+
+function formatProbability(probability: number): string {
+  if (probability < 0.0001) return `< 0.01 %`;
+  return `${(probability * 100).toFixed(probability < 0.01 ? 2 : 1)} %`;
+}
+
+function describeOperatingPoint({ threshold, far, frr }: CalibrationOperatingPoint): string {
+  return `umbral ${threshold}: falsa aceptación ${formatProbability(far!)}, falso rechazo ${formatProbability(frr!)}`;
+}
+
+// Estimaciones de la calibración de los umbrales de identificación y de verificación, a partir de
+// las galerías y de los inicios de sesión aceptados. Se carga bajo demanda porque recorre todos los pares de muestras.
+export default function CalibrationPanel({ onApplyThreshold }: CalibrationPanelProps) {
+  const { user } = useAuth();
+  const [targetFar, setTargetFar] = useState<number>(DEFAULT_TARGET_FAR);
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadCalibration = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      setReport(await fetchCalibration(targetFar));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof ApiError ? error.message : 'No se pudo contactar al servidor.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, targetFar]);
+
+  useEffect(() => {
+    loadCalibration();
+  }, [loadCalibration]);
+
+  const calibration = report?.calibration;
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="targetFar">Calibración del Umbral</Label>
+          <p className="text-xs text-muted-foreground">Tasa de falsa aceptación objetivo: probabilidad de aceptar a otra persona en una comparación.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(targetFar)} onValueChange={(value) => setTargetFar(Number(value))}>
+            <SelectTrigger id="targetFar" className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CALIBRATION_TARGET_FARS.map(far => (
+                <SelectItem key={far} value={String(far)}>{formatProbability(far)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" size="icon" onClick={loadCalibration} disabled={isLoading} aria-label="Recalcular calibración">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+      {report && calibration && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Datos: {report.sources.enrollmentGenuine} pares genuinos y {report.sources.enrollmentImpostor} impostores de las galerías, más {report.sources.loginObservations} inicios de sesión aceptados.
+            Distancia media genuina {calibration.genuine.mean.toFixed(3)} (±{calibration.genuine.stdDev.toFixed(3)}), impostora {calibration.impostor.mean.toFixed(3)} (±{calibration.impostor.stdDev.toFixed(3)}).
+          </p>
+          {!calibration.reliable ? (
+            <p className="text-sm text-muted-foreground">
+              Todavía no hay datos suficientes para calibrar: hacen falta más usuarios con varias muestras en su galería o más inicios de sesión.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-sm space-y-1">
+                  <p>
+                    Umbral recomendado: <span className="font-semibold">{report.recommendedThreshold!.toFixed(3)}</span>
+                    {report.expectedFrr !== null && <> (falso rechazo estimado {formatProbability(report.expectedFrr)})</>}
+                  </p>
+                  {(Object.keys(THRESHOLD_LABELS) as CalibratedThreshold[]).map(target => (
+                    <p key={target} className="text-muted-foreground">
+                      {THRESHOLD_LABELS[target]}, {describeOperatingPoint(report.current[target])}.
+                    </p>
+                  ))}
+                </div>
+                <div className="flex flex-col gap-2">
+                  {(Object.keys(THRESHOLD_LABELS) as CalibratedThreshold[]).map(target => (
+                    <Button key={target} type="button" variant="secondary" size="sm" onClick={() => onApplyThreshold(target, Number(report.recommendedThreshold!.toFixed(3)))}>
+                      Usar en {THRESHOLD_LABELS[target]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Distancia</TableHead>
+                    <TableHead>Probabilidad de Falsa Coincidencia</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.table.map(row => (
+                    <TableRow key={row.distance}>
+                      <TableCell>{row.distance.toFixed(2)}</TableCell>
+                      <TableCell>{formatProbability(row.falseMatchProbability)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground">
+                Por comparación. En la identificación 1:N el rostro se compara con todos los usuarios, así que la probabilidad de aceptar a alguien por error crece aproximadamente con su número.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
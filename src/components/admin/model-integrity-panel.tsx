@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import type { ModelIntegrityReport } from '@/types';
+import { fetchModelIntegrity } from '@/lib/settings-api';
+import { ApiError } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw } from 'lucide-react';
+
+// Estado de la verificación de los pesos de `public/models`. Si falla, el servidor y FaceCapture
+// rechazan cargar los modelos y el reconocimiento queda bloqueado.
+export default function ModelIntegrityPanel() {
+  const { user } = useAuth();
+  const [report, setReport] = useState<ModelIntegrityReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      setReport(await fetchModelIntegrity());
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof ApiError ? error.message : 'No se pudo contactar al servidor.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label>Integridad de los Modelos</Label>
+          <p className="text-xs text-muted-foreground">Huellas SHA-256 de `public/models` comparadas con `integrity.json`, firmado con la clave de la instalación.</p>
+        </div>
+        <Button type="button" variant="outline" size="icon" onClick={loadReport} disabled={isLoading} aria-label="Volver a verificar modelos">
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+      {report && (report.valid ? (
+        <p className="flex items-center gap-2 text-sm">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          {report.checkedFiles} archivos verificados{report.signedAt && <> (firmados el {new Date(report.signedAt).toLocaleString()})</>}.
+        </p>
+      ) : (
+        <div className="space-y-2 text-sm">
+          <p className="flex items-center gap-2 font-semibold text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            Verificación fallida: el reconocimiento facial está bloqueado.
+          </p>
+          <ul className="list-disc space-y-1 pl-6 text-destructive/90">
+            {report.failures.map(failure => (
+              <li key={failure.file}>{failure.reason}</li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            Restaura los archivos originales de `public/models` o, si los cambios son intencionados, fírmalos con `npm run sign:models` y configura la clave pública en NEXT_PUBLIC_MODEL_SIGNING_KEY.
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
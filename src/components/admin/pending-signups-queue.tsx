@@ -0,0 +1,118 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import type { PublicPendingSignup } from '@/types';
+import { approvePendingSignup, fetchPendingSignups, rejectPendingSignup } from '@/lib/pending-signup-api';
+import { ApiError } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Loader2, X } from 'lucide-react';
+
+// Registros retenidos porque su rostro coincide con una cuenta existente. Muestra ambas caras lado
+// a lado para que el administrador decida si son la misma persona.
+export default function PendingSignupsQueue() {
+  const { user, users, refreshUsers } = useAuth();
+  const [pendingSignups, setPendingSignups] = useState<PublicPendingSignup[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadPendingSignups = useCallback(async () => {
+    if (!user) return;
+    try {
+      setPendingSignups(await fetchPendingSignups());
+    } catch (error) {
+      console.error("Error al obtener los registros pendientes:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadPendingSignups();
+  }, [loadPendingSignups]);
+
+  const handleDecision = async (pendingSignup: PublicPendingSignup, approve: boolean) => {
+    if (!user) return;
+    setProcessingId(pendingSignup.id);
+    try {
+      if (approve) {
+        await approvePendingSignup(pendingSignup.id);
+        await refreshUsers();
+        toast({ title: "Registro Aprobado", description: `Se creó la cuenta de ${pendingSignup.name}.` });
+      } else {
+        await rejectPendingSignup(pendingSignup.id);
+        toast({ title: "Registro Rechazado", description: `El registro de ${pendingSignup.email} fue descartado.` });
+      }
+      setPendingSignups(current => current.filter(p => p.id !== pendingSignup.id));
+    } catch (error) {
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor. Inténtalo de nuevo.';
+      toast({ title: "Acción Fallida", description, variant: "destructive" });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const getInitials = (name: string = "") => {
+    return name
+      .split(' ')
+      .map(n => n[0])
+      .join('')
+      .toUpperCase() || 'U';
+  };
+
+  if (pendingSignups.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Registros Pendientes de Revisión ({pendingSignups.length})</CardTitle>
+        <CardDescription>
+          El rostro de estos registros coincide con una cuenta existente. Aprueba solo si son personas distintas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pendingSignups.map(pendingSignup => {
+          const collidedUser = users.find(u => u.id === pendingSignup.collision.userId);
+          return (
+            <div key={pendingSignup.id} className="flex flex-col gap-4 rounded-md border p-4 sm:flex-row sm:items-center">
+              <div className="flex flex-1 items-center gap-3">
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={pendingSignup.faceImageUri} alt={pendingSignup.name} data-ai-hint="rostro persona" />
+                  <AvatarFallback>{getInitials(pendingSignup.name)}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <p className="font-medium">{pendingSignup.name}</p>
+                  <p className="text-sm text-muted-foreground">{pendingSignup.email}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(pendingSignup.createdAt).toLocaleString('es')}</p>
+                </div>
+              </div>
+              <div className="flex flex-1 items-center gap-3">
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={collidedUser?.enhancedFaceImageUri} alt={collidedUser?.name} data-ai-hint="rostro perfil" />
+                  <AvatarFallback>{getInitials(collidedUser?.name)}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <p className="text-xs text-muted-foreground">Coincide con:</p>
+                  <p className="font-medium">{collidedUser ? collidedUser.name : 'Cuenta eliminada'}</p>
+                  {collidedUser && <p className="text-sm text-muted-foreground">{collidedUser.email}</p>}
+                  <p className="text-xs text-muted-foreground">Distancia: {pendingSignup.collision.distance.toFixed(3)}</p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleDecision(pendingSignup, false)} disabled={processingId !== null}>
+                  {processingId === pendingSignup.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+                  Rechazar
+                </Button>
+                <Button size="sm" onClick={() => handleDecision(pendingSignup, true)} disabled={processingId !== null}>
+                  {processingId === pendingSignup.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                  Aprobar
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,440 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import type { AppSettings, AppSettingsChanges, DetectorSettings, DuplicateFacePolicy, FaceDetectorKind, LoginPolicy, MultipleFacePolicy, TfBackendPreference } from '@/types';
+import { DEFAULT_DETECTOR_SETTINGS, TF_BACKEND_LABELS, TINY_INPUT_SIZES } from '@/lib/face/detector';
+import { MAX_LIVENESS_CHALLENGES } from '@/lib/face/challenges';
+import { fetchSettings, saveSettings } from '@/lib/settings-api';
+import { ApiError } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import CalibrationPanel from '@/components/admin/calibration-panel';
+import ModelIntegrityPanel from '@/components/admin/model-integrity-panel';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Save } from 'lucide-react';
+
+const LOGIN_POLICY_OPTIONS: { value: LoginPolicy; label: string }[] = [
+  { value: 'identification', label: 'Identificación (solo rostro, 1:N)' },
+  { value: 'verification', label: 'Verificación (cuenta y rostro, 1:1)' },
+  { value: 'both', label: 'Ambos (el usuario elige)' },
+];
+
+const DUPLICATE_FACE_POLICY_OPTIONS: { value: DuplicateFacePolicy; label: string }[] = [
+  { value: 'block', label: 'Bloquear el registro' },
+  { value: 'review', label: 'Enviar a revisión del administrador' },
+];
+
+const DETECTOR_KIND_OPTIONS: { value: FaceDetectorKind; label: string }[] = [
+  { value: 'tiny', label: 'TinyFaceDetector (rápido)' },
+  { value: 'ssd', label: 'SSD MobileNet v1 (preciso, más lento)' },
+  { value: 'mtcnn', label: 'MTCNN' },
+];
+
+const MULTIPLE_FACE_POLICY_OPTIONS: { value: MultipleFacePolicy; label: string }[] = [
+  { value: 'reject', label: 'Rechazar la captura' },
+  { value: 'largest', label: 'Usar el rostro más grande' },
+  { value: 'central', label: 'Usar el rostro más centrado' },
+];
+
+const TF_BACKEND_OPTIONS: { value: TfBackendPreference; label: string }[] = [
+  { value: 'auto', label: 'Automático (el más rápido disponible)' },
+  { value: 'webgl', label: TF_BACKEND_LABELS.webgl },
+  { value: 'wasm', label: TF_BACKEND_LABELS.wasm },
+  { value: 'cpu', label: TF_BACKEND_LABELS.cpu },
+];
+
+export default function SettingsForm() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [matchThreshold, setMatchThreshold] = useState('');
+  const [verificationThreshold, setVerificationThreshold] = useState('');
+  const [ambiguityMargin, setAmbiguityMargin] = useState('');
+  const [requireBlink, setRequireBlink] = useState(true);
+  const [challengeCount, setChallengeCount] = useState(0);
+  const [spoofDetection, setSpoofDetection] = useState(true);
+  const [spoofThreshold, setSpoofThreshold] = useState('');
+  const [loginPolicy, setLoginPolicy] = useState<LoginPolicy>('both');
+  const [duplicateFacePolicy, setDuplicateFacePolicy] = useState<DuplicateFacePolicy>('block');
+  const [detector, setDetector] = useState<DetectorSettings>(DEFAULT_DETECTOR_SETTINGS);
+  const [detectorScoreThreshold, setDetectorScoreThreshold] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Cambios retenidos hasta que el administrador confirme que invalidan las muestras registradas.
+  const [descriptorChange, setDescriptorChange] = useState<{ changes: AppSettingsChanges; message: string } | null>(null);
+  const { toast } = useToast();
+
+  const applySettings = (next: AppSettings) => {
+    setSettings(next);
+    setMatchThreshold(String(next.recognition.matchThreshold));
+    setVerificationThreshold(String(next.recognition.verificationThreshold));
+    setAmbiguityMargin(String(next.recognition.ambiguityMargin));
+    setRequireBlink(next.liveness.requireBlink);
+    setChallengeCount(next.liveness.challengeCount);
+    setSpoofDetection(next.liveness.spoofDetection);
+    setSpoofThreshold(String(next.liveness.spoofThreshold));
+    setLoginPolicy(next.login.policy);
+    setDuplicateFacePolicy(next.enrollment.duplicateFacePolicy);
+    setDetector(next.detection);
+    setDetectorScoreThreshold(String(next.detection.scoreThreshold));
+  };
+
+  useEffect(() => {
+    fetchSettings()
+      .then(applySettings)
+      .catch(error => {
+        console.error("Error al obtener la configuración:", error);
+        toast({ title: "Configuración No Disponible", description: "No se pudo cargar la configuración del servidor.", variant: "destructive" });
+      });
+  }, [toast]);
+
+  const persistSettings = async (changes: AppSettingsChanges, confirmDescriptorChange = false) => {
+    setIsSaving(true);
+    try {
+      applySettings(await saveSettings(changes, confirmDescriptorChange));
+      toast({ title: "Configuración Guardada", description: "El servidor aplica los cambios de inmediato; las cámaras abiertas los usarán al recargar la página." });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409 && !confirmDescriptorChange) {
+        setDescriptorChange({ changes, message: error.message });
+        return;
+      }
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor. Inténtalo de nuevo.';
+      toast({ title: "Configuración No Guardada", description, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const threshold = Number(matchThreshold);
+    if (!Number.isFinite(threshold) || threshold < 0.2 || threshold > 1) {
+      toast({ title: "Valor Inválido", description: "El umbral de coincidencia debe estar entre 0.2 y 1.", variant: "destructive" });
+      return;
+    }
+    const verifyThreshold = Number(verificationThreshold);
+    if (!Number.isFinite(verifyThreshold) || verifyThreshold < 0.2 || verifyThreshold > threshold) {
+      toast({ title: "Valor Inválido", description: "El umbral de verificación debe estar entre 0.2 y el umbral de coincidencia.", variant: "destructive" });
+      return;
+    }
+    const margin = Number(ambiguityMargin);
+    if (!Number.isFinite(margin) || margin < 0 || margin > 0.5) {
+      toast({ title: "Valor Inválido", description: "El margen de ambigüedad debe estar entre 0 y 0.5.", variant: "destructive" });
+      return;
+    }
+    const maxSpoofScore = Number(spoofThreshold);
+    if (!Number.isFinite(maxSpoofScore) || maxSpoofScore < 0.1 || maxSpoofScore > 1) {
+      toast({ title: "Valor Inválido", description: "El umbral de ataque de presentación debe estar entre 0.1 y 1.", variant: "destructive" });
+      return;
+    }
+    const scoreThreshold = Number(detectorScoreThreshold);
+    if (!Number.isFinite(scoreThreshold) || scoreThreshold < 0.1 || scoreThreshold > 0.99) {
+      toast({ title: "Valor Inválido", description: "La confianza mínima de detección debe estar entre 0.1 y 0.99.", variant: "destructive" });
+      return;
+    }
+
+    await persistSettings({
+      recognition: { matchThreshold: threshold, verificationThreshold: verifyThreshold, ambiguityMargin: margin },
+      liveness: { requireBlink, challengeCount, spoofDetection, spoofThreshold: maxSpoofScore },
+      login: { policy: loginPolicy },
+      enrollment: { duplicateFacePolicy },
+      detection: { ...detector, scoreThreshold },
+    });
+  };
+
+  if (!settings) return <div className="flex justify-center items-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
+
+  return (
+    <div className="container mx-auto py-8 max-w-2xl">
+      <h1 className="text-3xl font-headline font-bold text-primary mb-6">Configuración</h1>
+      <form onSubmit={handleSubmit}>
+        <Card>
+          <CardHeader>
+            <CardTitle>Reconocimiento Facial</CardTitle>
+            <CardDescription>Parámetros que usa el servidor al identificar o verificar un rostro en el inicio de sesión.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="matchThreshold">Umbral de Coincidencia</Label>
+              <Input
+                id="matchThreshold"
+                type="number"
+                step="0.005"
+                min={0.2}
+                max={1}
+                value={matchThreshold}
+                onChange={(e) => setMatchThreshold(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Distancia máxima entre descriptores para aceptar una identificación o considerar que un registro nuevo es un rostro ya registrado. Valores más bajos son más estrictos.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="verificationThreshold">Umbral de Verificación</Label>
+              <Input
+                id="verificationThreshold"
+                type="number"
+                step="0.005"
+                min={0.2}
+                max={1}
+                value={verificationThreshold}
+                onChange={(e) => setVerificationThreshold(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Distancia máxima para aceptar el rostro cuando el usuario indica su cuenta (1:1). No puede superar el umbral de coincidencia: sin otros candidatos con los que desempatar, debe ser igual o más estricto.
+              </p>
+            </div>
+            <CalibrationPanel
+              onApplyThreshold={(target, value) => (target === 'identification' ? setMatchThreshold : setVerificationThreshold)(String(value))}
+            />
+            <div className="space-y-2">
+              <Label htmlFor="ambiguityMargin">Margen de Ambigüedad</Label>
+              <Input
+                id="ambiguityMargin"
+                type="number"
+                step="0.01"
+                min={0}
+                max={0.5}
+                value={ambiguityMargin}
+                onChange={(e) => setAmbiguityMargin(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Diferencia mínima de distancia entre el mejor y el segundo candidato. Si dos usuarios quedan más cerca que este margen, se pide confirmar el correo electrónico.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Prueba de Vida</CardTitle>
+            <CardDescription>Comprobación de que ante la cámara hay una persona y no una foto.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="requireBlink">Exigir Parpadeo</Label>
+                <p className="text-xs text-muted-foreground">La cámara no permite capturar hasta detectar un parpadeo, y el servidor rechaza el inicio de sesión si no puede confirmarlo en los fotogramas recibidos.</p>
+              </div>
+              <Switch id="requireBlink" checked={requireBlink} onCheckedChange={setRequireBlink} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challengeCount">Retos Aleatorios</Label>
+              <Select value={String(challengeCount)} onValueChange={(value) => setChallengeCount(Number(value))}>
+                <SelectTrigger id="challengeCount">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_LIVENESS_CHALLENGES + 1 }, (_, count) => (
+                    <SelectItem key={count} value={String(count)}>{count === 0 ? 'Desactivados' : `${count} por inicio de sesión`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                El servidor pide gestos al azar (girar la cabeza, sonreír, abrir la boca, levantar las cejas) con un plazo para cada uno. Cada secuencia lleva un nonce de un solo uso, así que una grabación de un intento anterior no sirve.
+              </p>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="spoofDetection">Detectar Fotos y Pantallas</Label>
+                <p className="text-xs text-muted-foreground">Analiza los últimos fotogramas de la cámara: movimiento plano de los landmarks, moiré, reflejos y fondo que se mueve junto al rostro.</p>
+              </div>
+              <Switch id="spoofDetection" checked={spoofDetection} onCheckedChange={setSpoofDetection} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="spoofThreshold">Umbral de Ataque de Presentación</Label>
+              <Input
+                id="spoofThreshold"
+                type="number"
+                step="0.05"
+                min={0.1}
+                max={1}
+                value={spoofThreshold}
+                onChange={(e) => setSpoofThreshold(e.target.value)}
+                disabled={!spoofDetection}
+              />
+              <p className="text-xs text-muted-foreground">Se rechaza el inicio de sesión si la puntuación de ataque (0 a 1) supera este valor. Valores más bajos son más estrictos y rechazan más intentos legítimos.</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Inicio de Sesión</CardTitle>
+            <CardDescription>Cómo se identifican los usuarios en el formulario de inicio de sesión.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="loginPolicy">Política de Inicio de Sesión</Label>
+              <Select value={loginPolicy} onValueChange={(value) => setLoginPolicy(value as LoginPolicy)}>
+                <SelectTrigger id="loginPolicy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOGIN_POLICY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                La verificación compara el rostro solo con la cuenta indicada y usa un umbral más estricto; escala mejor cuando hay muchos usuarios registrados.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Registro</CardTitle>
+            <CardDescription>Controles al crear cuentas nuevas.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="duplicateFacePolicy">Rostro Ya Registrado</Label>
+              <Select value={duplicateFacePolicy} onValueChange={(value) => setDuplicateFacePolicy(value as DuplicateFacePolicy)}>
+                <SelectTrigger id="duplicateFacePolicy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DUPLICATE_FACE_POLICY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Qué hacer cuando el rostro de un registro nuevo coincide con una cuenta existente. En revisión, el registro aparece en el Panel de Admin junto a la cuenta con la que coincide.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Detección Facial</CardTitle>
+            <CardDescription>Detector usado por la cámara (vista previa y captura) y por el servidor. Compensa velocidad y precisión según los equipos de la instalación.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="detectorKind">Detector</Label>
+              <Select value={detector.kind} onValueChange={(value) => setDetector(current => ({ ...current, kind: value as FaceDetectorKind }))}>
+                <SelectTrigger id="detectorKind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DETECTOR_KIND_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Cambiar el detector o los landmarks cambia los descriptores: las muestras registradas dejan de compararse hasta recalcularlas desde Gestión de Usuarios.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="detectorInputSize">Tamaño de Entrada</Label>
+              <Select
+                value={String(detector.inputSize)}
+                onValueChange={(value) => setDetector(current => ({ ...current, inputSize: Number(value) }))}
+                disabled={detector.kind !== 'tiny'}
+              >
+                <SelectTrigger id="detectorInputSize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TINY_INPUT_SIZES.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size} px</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Solo TinyFaceDetector. Valores mayores detectan rostros más pequeños o lejanos, con más coste.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="detectorScoreThreshold">Confianza Mínima de Detección</Label>
+              <Input
+                id="detectorScoreThreshold"
+                type="number"
+                step="0.05"
+                min={0.1}
+                max={0.99}
+                value={detectorScoreThreshold}
+                onChange={(e) => setDetectorScoreThreshold(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="useTinyLandmarks">Landmarks Ligeros</Label>
+                <p className="text-xs text-muted-foreground">Usa face_landmark_68_tiny: más rápido, alineación algo menos precisa.</p>
+              </div>
+              <Switch
+                id="useTinyLandmarks"
+                checked={detector.useTinyLandmarks}
+                onCheckedChange={(checked) => setDetector(current => ({ ...current, useTinyLandmarks: checked }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="multipleFacePolicy">Varios Rostros en la Imagen</Label>
+              <Select
+                value={detector.multipleFacePolicy}
+                onValueChange={(value) => setDetector(current => ({ ...current, multipleFacePolicy: value as MultipleFacePolicy }))}
+              >
+                <SelectTrigger id="multipleFacePolicy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MULTIPLE_FACE_POLICY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Se aplica en la vista previa, en la captura y en el servidor.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tfBackend">Backend de TensorFlow.js</Label>
+              <Select
+                value={detector.backend}
+                onValueChange={(value) => setDetector(current => ({ ...current, backend: value as TfBackendPreference }))}
+              >
+                <SelectTrigger id="tfBackend">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TF_BACKEND_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Solo en el navegador. En automático se prueban WebGL y WebAssembly al iniciar y se usa el más rápido, con CPU como último recurso. Si el backend fijado no está disponible en un equipo, se elige automáticamente.
+              </p>
+            </div>
+            <ModelIntegrityPanel />
+          </CardContent>
+        </Card>
+        <div className="mt-6 flex justify-end">
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            {isSaving ? 'Guardando...' : 'Guardar Cambios'}
+          </Button>
+        </div>
+      </form>
+      <AlertDialog open={descriptorChange !== null} onOpenChange={(open) => { if (!open) setDescriptorChange(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Cambiar el detector facial?</AlertDialogTitle>
+            <AlertDialogDescription>{descriptorChange?.message}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => { if (descriptorChange) persistSettings(descriptorChange.changes, true); }}>
+              Cambiar de Todos Modos
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
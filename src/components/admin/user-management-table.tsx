@@ -1,38 +1,77 @@
 
 "use client";
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/auth-context';
-import type { User } from '@/types';
+import type { CapturedFrame, DescriptorMigrationReport, FaceCaptureDetails, ProfileFaceSample, UserProfile } from '@/types';
+import { fetchDescriptorMigrationReport, runDescriptorMigration } from '@/lib/user-api';
+import { ApiError } from '@/lib/api-client';
+import { describeDescriptorVersion } from '@/lib/face/descriptor-version';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import FaceCapture from '@/components/face/face-capture';
 import { useToast } from '@/hooks/use-toast';
-import { Edit3, Loader2 } from 'lucide-react';
+import { Edit3, Loader2, Plus, RefreshCw, Trash2, X } from 'lucide-react';
 import Image from 'next/image';
 
 
+// La telemetría de detección es una ayuda de desarrollo; en producción no se muestra al administrador.
+const SHOW_CAPTURE_TELEMETRY = process.env.NODE_ENV === 'development';
+
 export default function UserManagementTable() {
-  const { users, updateUserFaceAdmin, loading: authLoading } = useAuth();
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const { user: adminUser, users, refreshUsers, updateUserFaceAdmin, addFaceSampleAdmin, removeFaceSampleAdmin, resetDatabase, loading: authLoading } = useAuth();
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [newFaceUri, setNewFaceUri] = useState<string | null>(null);
   const [newFaceDescriptor, setNewFaceDescriptor] = useState<number[] | null>(null);
+  const [newBurstFrames, setNewBurstFrames] = useState<CapturedFrame[] | undefined>(undefined);
+  const [captureKey, setCaptureKey] = useState(0);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [removingSampleId, setRemovingSampleId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [migrationReport, setMigrationReport] = useState<DescriptorMigrationReport | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
   const { toast } = useToast();
 
-  const handleOpenUpdateDialog = (user: User) => {
-    setSelectedUser(user);
-    setNewFaceUri(null); 
+  // Muestras calculadas con otra versión del modelo; se vuelve a consultar cuando cambian las galerías.
+  const loadMigrationReport = useCallback(async () => {
+    if (!adminUser) return;
+    try {
+      setMigrationReport(await fetchDescriptorMigrationReport());
+    } catch (error) {
+      console.error("Error al obtener el estado de los descriptores:", error);
+    }
+  }, [adminUser]);
+
+  useEffect(() => {
+    loadMigrationReport();
+  }, [loadMigrationReport, users]);
+
+  const reenrollmentUserIds = new Set(migrationReport?.reenrollmentRequired.map(entry => entry.userId));
+
+  // Se busca en `users` en cada render para que la galería refleje las muestras añadidas o eliminadas.
+  const selectedUser = users.find(u => u.id === selectedUserId) ?? null;
+
+  const resetCapture = () => {
+    setNewFaceUri(null);
     setNewFaceDescriptor(null);
+    setNewBurstFrames(undefined);
+    setCaptureKey(key => key + 1);
+  };
+
+  const handleOpenUpdateDialog = (user: UserProfile) => {
+    setSelectedUserId(user.id);
+    resetCapture();
     setIsDialogOpen(true);
   };
 
-  const handleFaceCapturedInDialog = (dataUrl: string, descriptor: number[] | null) => {
+  const handleFaceCapturedInDialog = (dataUrl: string, descriptor: number[] | null, details: FaceCaptureDetails | null) => {
     setNewFaceUri(dataUrl);
     setNewFaceDescriptor(descriptor);
+    setNewBurstFrames(details?.burstFrames);
      if (descriptor) {
       toast({ title: "Nuevo Rostro Procesado", description: "Nueva imagen facial y descriptor listos para actualizar." });
     } else {
@@ -53,7 +92,7 @@ export default function UserManagementTable() {
 
     setIsUpdating(true);
     try {
-      const success = await updateUserFaceAdmin(selectedUser.id, newFaceUri, newFaceDescriptor);
+      const success = await updateUserFaceAdmin(selectedUser.id, newFaceUri, newFaceDescriptor, newBurstFrames);
       if (success) {
         toast({ title: "Rostro Actualizado", description: `El rostro de inicio de sesión y descriptor de ${selectedUser.name} han sido actualizados.` });
         setIsDialogOpen(false); 
@@ -68,6 +107,73 @@ export default function UserManagementTable() {
     }
   };
   
+  const handleAddSample = async () => {
+    if (!selectedUser || !newFaceUri || !newFaceDescriptor) {
+        toast({title: "Datos Faltantes", description: "Captura un rostro con descriptor válido antes de añadirlo a la galería.", variant: "destructive"});
+        return;
+    }
+    setIsUpdating(true);
+    try {
+      const success = await addFaceSampleAdmin(selectedUser.id, newFaceUri, newFaceDescriptor, newBurstFrames);
+      if (success) {
+        toast({ title: "Muestra Añadida", description: `La galería de ${selectedUser.name} ahora tiene una muestra más.` });
+        resetCapture();
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRemoveSample = async (sample: ProfileFaceSample) => {
+    if (!selectedUser) return;
+    setRemovingSampleId(sample.id);
+    try {
+      const success = await removeFaceSampleAdmin(selectedUser.id, sample.id);
+      if (success) {
+        toast({ title: "Muestra Eliminada", description: "La muestra ya no se usará para el reconocimiento." });
+      }
+    } finally {
+      setRemovingSampleId(null);
+    }
+  };
+
+  const sampleSourceLabel = (sample: ProfileFaceSample) => (sample.source === 'signup' ? 'Registro' : 'Admin');
+
+  const qualityMetricsSummary = ({ qualityMetrics: m }: ProfileFaceSample) => (m
+    ? `Nitidez ${m.sharpness.toFixed(0)} · Brillo ${m.brightness.toFixed(0)} · Contraste ${m.contrast.toFixed(0)} · Tamaño ${Math.round(m.faceSizeRatio * 100)}% · Pose ${m.yaw.toFixed(0)}°/${m.pitch.toFixed(0)}°/${m.roll.toFixed(0)}°`
+    : undefined);
+
+  const handleResetDatabase = async () => {
+    setIsResetting(true);
+    try {
+      const success = await resetDatabase();
+      if (success) {
+        toast({ title: "Base de Datos Restablecida", description: "Se eliminaron todos los usuarios registrados." });
+      }
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const handleMigrateDescriptors = async () => {
+    if (!adminUser) return;
+    setIsMigrating(true);
+    try {
+      const result = await runDescriptorMigration();
+      setMigrationReport(result);
+      await refreshUsers();
+      toast({
+        title: "Descriptores Migrados",
+        description: `${result.rederived} muestras recalculadas. ${result.reenrollmentRequired.length === 0 ? 'Todos los usuarios tienen muestras vigentes.' : `${result.reenrollmentRequired.length} usuarios deben volver a registrar su rostro.`}`,
+      });
+    } catch (error) {
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor. Inténtalo de nuevo.';
+      toast({ title: "Migración Fallida", description, variant: "destructive" });
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
   const getInitials = (name: string = "") => {
     return name
       .split(' ')
@@ -81,7 +187,41 @@ export default function UserManagementTable() {
 
   return (
     <div className="container mx-auto py-8">
-      <h1 className="text-3xl font-headline font-bold mb-6 text-primary">Gestión de Usuarios</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-headline font-bold text-primary">Gestión de Usuarios</h1>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm" disabled={isResetting}>
+              {isResetting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Restablecer Base de Datos
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>¿Restablecer la base de datos?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Se eliminarán todos los usuarios y sus rostros registrados, incluida tu propia cuenta. Esta acción no se puede deshacer.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleResetDatabase}>Restablecer</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+      {migrationReport && migrationReport.outdatedSamples > 0 && (
+        <Card className="mb-6 p-4 flex items-center justify-between gap-4">
+          <p className="text-sm">
+            {migrationReport.outdatedSamples} de {migrationReport.totalSamples} muestras se calcularon con otra versión del modelo facial y no se usan para el reconocimiento
+            (versión actual: {describeDescriptorVersion(migrationReport.currentVersion)}). La migración las recalcula a partir de sus imágenes.
+          </p>
+          <Button variant="secondary" size="sm" onClick={handleMigrateDescriptors} disabled={isMigrating}>
+            {isMigrating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            {isMigrating ? 'Migrando...' : 'Migrar Descriptores'}
+          </Button>
+        </Card>
+      )}
       <Card>
         <Table>
           <TableHeader>
@@ -90,7 +230,7 @@ export default function UserManagementTable() {
               <TableHead>Nombre</TableHead>
               <TableHead>Correo Electrónico</TableHead>
               <TableHead>Rol</TableHead>
-              <TableHead>Descriptor</TableHead>
+              <TableHead>Muestras</TableHead>
               <TableHead className="text-right">Acciones</TableHead>
             </TableRow>
           </TableHeader>
@@ -106,10 +246,13 @@ export default function UserManagementTable() {
                 <TableCell className="font-medium">{user.name}</TableCell>
                 <TableCell>{user.email}</TableCell>
                 <TableCell>{user.isAdmin ? 'Admin' : 'Usuario'}</TableCell>
-                <TableCell>{user.faceDescriptor ? 'Sí' : 'No'}</TableCell>
+                <TableCell>
+                  {user.faceSamples.length}
+                  {reenrollmentUserIds.has(user.id) && <span className="ml-2 text-xs font-medium text-destructive">Requiere nuevo registro</span>}
+                </TableCell>
                 <TableCell className="text-right">
                   <Button variant="outline" size="sm" onClick={() => handleOpenUpdateDialog(user)}>
-                    <Edit3 className="mr-2 h-4 w-4" /> Actualizar Rostro
+                    <Edit3 className="mr-2 h-4 w-4" /> Gestionar Rostros
                   </Button>
                 </TableCell>
               </TableRow>
@@ -120,33 +263,58 @@ export default function UserManagementTable() {
 
       {selectedUser && (
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogContent className="sm:max-w-[425px]">
+          <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
-              <DialogTitle>Actualizar Rostro para {selectedUser.name}</DialogTitle>
+              <DialogTitle>Rostros de {selectedUser.name}</DialogTitle>
               <DialogDescription>
-                Captura una nueva imagen facial. Esto reemplazará el rostro de inicio de sesión existente y recalculará el descriptor.
+                Todas las muestras de la galería se usan para el reconocimiento. Añade capturas con distinta luz, gafas o peinado para mejorar la precisión, o reemplaza el rostro para empezar de cero.
               </DialogDescription>
             </DialogHeader>
             <div className="py-4 space-y-4">
-              <div className="flex flex-col items-center">
-                <p className="text-sm font-medium mb-1">Rostro Mejorado Actual:</p>
-                <div className="w-32 h-32 rounded-md overflow-hidden border bg-muted mb-4">
-                  {selectedUser.enhancedFaceImageUri ? (
-                    <Image src={selectedUser.enhancedFaceImageUri} alt="Rostro actual" width={128} height={128} className="object-cover w-full h-full" data-ai-hint="rostro persona" />
-                  ) : <div className="w-full h-full flex items-center justify-center text-muted-foreground">Sin Imagen</div>}
+              <div>
+                <p className="text-sm font-medium mb-2">Galería ({selectedUser.faceSamples.length} {selectedUser.faceSamples.length === 1 ? 'muestra' : 'muestras'}):</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {selectedUser.faceSamples.map(sample => (
+                    <div key={sample.id} className="relative rounded-md border bg-muted p-1 text-center">
+                      <div className="aspect-square w-full overflow-hidden rounded">
+                        {sample.imageUri ? (
+                          <Image src={sample.imageUri} alt="Muestra facial" width={96} height={96} className="object-cover w-full h-full" data-ai-hint="rostro persona" />
+                        ) : <div className="w-full h-full flex items-center justify-center text-xs text-muted-foreground">Sin Imagen</div>}
+                      </div>
+                      <p className="text-[10px] text-muted-foreground mt-1">{new Date(sample.capturedAt).toLocaleDateString('es')} · {sampleSourceLabel(sample)}</p>
+                      <p className="text-[10px] text-muted-foreground" title={qualityMetricsSummary(sample)}>Calidad: {sample.quality === null ? 'N/D' : `${Math.round(sample.quality * 100)}%`}</p>
+                      <p className="text-[10px] text-muted-foreground">Modelo: {describeDescriptorVersion(sample.descriptorVersion)}</p>
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        size="icon"
+                        className="absolute top-1 right-1 h-6 w-6"
+                        title="Eliminar muestra"
+                        onClick={() => handleRemoveSample(sample)}
+                        disabled={removingSampleId !== null || selectedUser.faceSamples.length <= 1}
+                      >
+                        {removingSampleId === sample.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <X className="h-3 w-3" />}
+                      </Button>
+                    </div>
+                  ))}
                 </div>
-                <FaceCapture onFaceCaptured={handleFaceCapturedInDialog} imageSize={200} captureButtonText="Capturar Nuevo Rostro" />
-                {newFaceUri && newFaceDescriptor && <p className="text-xs text-green-600 mt-2">Nuevo rostro y descriptor capturados. Listo para actualizar.</p>}
+              </div>
+              <div className="flex flex-col items-center">
+                <FaceCapture key={captureKey} onFaceCaptured={handleFaceCapturedInDialog} captureMode="burst" imageSize={200} captureButtonText="Capturar Nueva Muestra" showTelemetry={SHOW_CAPTURE_TELEMETRY} />
+                {newFaceUri && newFaceDescriptor && <p className="text-xs text-green-600 mt-2">Nueva muestra y descriptor capturados. Añádela a la galería o reemplaza el rostro.</p>}
                 {newFaceUri && !newFaceDescriptor && <p className="text-xs text-amber-600 mt-2">Rostro capturado, descriptor falló. Intenta de nuevo.</p>}
               </div>
             </div>
-            <DialogFooter>
+            <DialogFooter className="gap-2 sm:gap-0">
               <DialogClose asChild>
-                <Button type="button" variant="outline">Cancelar</Button>
+                <Button type="button" variant="outline">Cerrar</Button>
               </DialogClose>
-              <Button type="button" onClick={handleUpdateUserFace} disabled={isUpdating || !newFaceUri || !newFaceDescriptor}>
-                {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-                {isUpdating ? 'Actualizando...' : 'Guardar Nuevo Rostro'}
+              <Button type="button" variant="secondary" onClick={handleUpdateUserFace} disabled={isUpdating || !newFaceUri || !newFaceDescriptor}>
+                {isUpdating ? 'Actualizando...' : 'Reemplazar Rostro'}
+              </Button>
+              <Button type="button" onClick={handleAddSample} disabled={isUpdating || !newFaceUri || !newFaceDescriptor}>
+                {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                {isUpdating ? 'Guardando...' : 'Añadir a la Galería'}
               </Button>
             </DialogFooter>
           </DialogContent>
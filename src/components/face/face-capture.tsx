@@ -1,23 +1,112 @@
 
 "use client";
 
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
-import { Camera, RefreshCw, CheckCircle2, AlertTriangle, VideoOff, Loader2, ScanFace } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, RefreshCw, CheckCircle2, AlertTriangle, VideoOff, Loader2, ScanFace, SwitchCamera } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import useLocalStorage from '@/hooks/use-local-storage';
+import { useIsMobile } from '@/hooks/use-mobile';
 import { cn } from '@/lib/utils';
-import * as faceapi from 'face-api.js';
+import type { CapturedFrame, ChallengeLivenessEvidence, FaceCaptureDetails, FaceQualityReport, LivenessChallenge, LivenessEvidence, MultipleFacePolicy } from '@/types';
+import useAppSettings from '@/hooks/use-app-settings';
+import { DEFAULT_DETECTOR_SETTINGS, EXPRESSION_MODEL_NAME, getRequiredModels, TF_BACKEND_LABELS } from '@/lib/face/detector';
+import { QUALITY_ISSUE_MESSAGES } from '@/lib/face/quality';
+import type { FaceBox } from '@/lib/face/quality';
+import { BlinkTracker, LIVENESS_WINDOW_MS } from '@/lib/face/liveness';
+import type { BlinkEvent } from '@/lib/face/liveness';
+import { CHALLENGE_INSTRUCTIONS, ChallengeSequence, measureChallengeFeatures, NEUTRAL_INSTRUCTION } from '@/lib/face/challenges';
+import type { ChallengeProgress, ChallengeSequenceResult } from '@/lib/face/challenges';
+import { analyzePresentationAttack, hasSufficientMotion, SPOOF_FRAME_COUNT, SPOOF_FRAME_INTERVAL_MS, SPOOF_MIN_FRAMES } from '@/lib/face/presentation-attack';
+import type { SpoofFrame } from '@/lib/face/presentation-attack';
+import { MULTIPLE_FACE_MESSAGES, selectFace } from '@/lib/face/face-selection';
+import { BURST_FRAME_COUNT, BURST_FRAME_INTERVAL_MS, BURST_MIN_DETECTION_SCORE, BURST_MIN_KEPT_FRAMES, weightedMeanDescriptor } from '@/lib/face/burst';
+import { getFaceDetectionWorker, grabVideoFrame } from '@/lib/face/face-detection-worker-client';
+import { MODEL_INTEGRITY_FILE, ModelIntegrityError } from '@/lib/face/model-integrity';
+import { MODEL_BASE_URL } from '@/lib/face/worker-protocol';
+import { AdaptiveDetectionScheduler, watchVideoFrames } from '@/lib/face/detection-loop';
+import type { DetectionTelemetry } from '@/lib/face/detection-loop';
+import type { BackendSelection, FrameDetection, ModelLoadProgress, WorkerFace } from '@/lib/face/worker-protocol';
+import { buildVideoConstraints, CAMERA_DEVICE_STORAGE_KEY, CAMERA_FACING_STORAGE_KEY, cameraLabel, DEFAULT_CAPTURE_RESOLUTION, listCameras } from '@/lib/face/camera';
+import type { CameraFacing, CaptureResolution } from '@/lib/face/camera';
 
 interface FaceCaptureProps {
-  onFaceCaptured: (dataUrl: string, descriptor: number[] | null) => void;
+  onFaceCaptured: (dataUrl: string, descriptor: number[] | null, details: FaceCaptureDetails | null) => void;
   captureButtonText?: string;
+  // Tamaño de la vista previa en pantalla, en píxeles.
   imageSize?: number;
+  // Resolución que se pide a la cámara para detectar y capturar, independiente de `imageSize`.
+  captureResolution?: CaptureResolution;
+  // 'burst' promedia varios fotogramas; recomendado para enrolamiento, donde la plantilla perdura.
+  captureMode?: 'single' | 'burst';
+  // 'blink' no habilita la captura hasta detectar un parpadeo y adjunta la evidencia en `details.liveness`.
+  livenessCheck?: 'none' | 'blink';
+  // Nonce del servidor que acompaña a la evidencia de parpadeo; null mientras llega. Solo cuentan
+  // los parpadeos posteriores a recibirlo.
+  blinkNonce?: string | null;
+  // Retos emitidos por el servidor; la captura no se habilita hasta cumplirlos y la evidencia va en
+  // `details.challengeResponse`. null indica que se exigen pero aún no han llegado.
+  livenessChallenge?: LivenessChallenge | null;
+  // Se invoca cuando vence el plazo de un reto, para que el formulario pida una secuencia nueva.
+  onChallengeFailed?: () => void;
+  // Conserva los últimos fotogramas de la vista previa y los adjunta en `details.spoofFrames` para
+  // el detector de ataques de presentación del servidor.
+  detectPresentationAttack?: boolean;
+  // Muestra sobre la vista previa la tasa de detección, la latencia del worker y los fotogramas omitidos.
+  showTelemetry?: boolean;
+}
+
+// Dibuja un recuadro por rostro: el seleccionado en verde y el resto en gris, o todos en rojo si la
+// política los rechaza. El canvas se muestra en espejo por CSS, así que las etiquetas se dibujan
+// invertidas para que se lean bien.
+function drawFaceOverlays(canvas: HTMLCanvasElement, boxes: FaceBox[], selectedIndex: number, policy: MultipleFacePolicy) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  const multiple = boxes.length > 1;
+  boxes.forEach((box, i) => {
+    let color = '#22c55e';
+    let label: string | null = null;
+    if (multiple && policy === 'reject') {
+      color = '#ef4444';
+      label = `Rostro ${i + 1}`;
+    } else if (multiple) {
+      color = i === selectedIndex ? '#22c55e' : '#9ca3af';
+      label = i === selectedIndex ? 'Seleccionado' : 'Ignorado';
+    }
+    context.lineWidth = 2;
+    context.strokeStyle = color;
+    context.strokeRect(box.x, box.y, box.width, box.height);
+    if (label) {
+      context.save();
+      context.translate(canvas.width, 0);
+      context.scale(-1, 1);
+      context.font = '12px sans-serif';
+      const textX = canvas.width - box.x - box.width;
+      const textWidth = context.measureText(label).width;
+      context.fillStyle = color;
+      context.fillRect(textX, Math.max(0, box.y - 16), textWidth + 6, 16);
+      context.fillStyle = '#ffffff';
+      context.fillText(label, textX + 3, Math.max(12, box.y - 4));
+      context.restore();
+    }
+  });
 }
 
 const FaceCapture: React.FC<FaceCaptureProps> = ({
   onFaceCaptured,
   captureButtonText = "Capturar Rostro",
-  imageSize = 300
+  imageSize = 300,
+  captureResolution = DEFAULT_CAPTURE_RESOLUTION,
+  captureMode = 'single',
+  livenessCheck = 'none',
+  blinkNonce,
+  livenessChallenge,
+  onChallengeFailed,
+  detectPresentationAttack = false,
+  showTelemetry = false
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null); // For taking the snapshot
@@ -26,71 +115,173 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isStartingCamera, setIsStartingCamera] = useState(false);
+  const isMobile = useIsMobile();
+  // Cámara elegida: un dispositivo concreto en escritorio, frontal o trasera en el móvil.
+  const [cameraDeviceId, setCameraDeviceId] = useLocalStorage<string | null>(CAMERA_DEVICE_STORAGE_KEY, null);
+  const [cameraFacing, setCameraFacing] = useLocalStorage<CameraFacing>(CAMERA_FACING_STORAGE_KEY, 'user');
+  const [cameraDevices, setCameraDevices] = useState<MediaDeviceInfo[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  // Se incrementa al cambiar de cámara para que el efecto de arranque automático vuelva a iniciarla.
+  const [cameraRestartCount, setCameraRestartCount] = useState(0);
+  const { width: captureWidth, height: captureHeight } = captureResolution;
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [isTakingPicture, setIsTakingPicture] = useState(false);
   const [modelsLoaded, setModelsLoaded] = useState(false);
   const [descriptorModelsLoaded, setDescriptorModelsLoaded] = useState(false);
   const [detectionStatus, setDetectionStatus] = useState<string>("Inicializando...");
   const [isFaceDetectedInPreview, setIsFaceDetectedInPreview] = useState(false);
+  // Calidad del rostro en la vista previa; la captura no se habilita hasta que supera los umbrales.
+  const [previewQuality, setPreviewQuality] = useState<FaceQualityReport | null>(null);
+  // Último parpadeo de la vista previa; caduca pasados LIVENESS_WINDOW_MS.
+  const [blinkEvent, setBlinkEvent] = useState<BlinkEvent<ImageData> | null>(null);
+  const [challengeProgress, setChallengeProgress] = useState<ChallengeProgress | null>(null);
+  const [spoofFrameCount, setSpoofFrameCount] = useState(0);
+  const [previewFaceCount, setPreviewFaceCount] = useState(0);
+  const [telemetry, setTelemetry] = useState<DetectionTelemetry | null>(null);
+  const [backendSelection, setBackendSelection] = useState<BackendSelection | null>(null);
+  // Modelos que se están descargando (no los que salen de la caché), con su progreso.
+  const [modelDownloads, setModelDownloads] = useState<ModelLoadProgress[]>([]);
+  // Archivo de `public/models` que no superó la verificación de integridad; bloquea el reconocimiento.
+  const [integrityFailure, setIntegrityFailure] = useState<string | null>(null);
 
 
   const { toast } = useToast();
+  // El detector lo elige el administrador; se usa igual en la vista previa y en la captura.
+  const [appSettings, settingsLoaded] = useAppSettings();
+  const detector = useMemo(() => appSettings?.detection ?? DEFAULT_DETECTOR_SETTINGS, [appSettings]);
+  const isLivenessOk = livenessCheck !== 'blink' || (!!blinkEvent && !!blinkNonce);
+  const challengeRequired = livenessChallenge !== undefined;
+  const isChallengeOk = !challengeRequired || challengeProgress?.status === 'completed';
+  // La secuencia debe mostrar algo de movimiento: sin él el servidor no puede evaluar el paralaje.
+  const [spoofMotionOk, setSpoofMotionOk] = useState(false);
+  const isSpoofSequenceReady = !detectPresentationAttack || (spoofFrameCount >= SPOOF_MIN_FRAMES && spoofMotionOk);
+  const isFaceSelectionOk = !(previewFaceCount > 1 && detector.multipleFacePolicy === 'reject');
 
   const streamRef = useRef(stream);
   const isCameraActiveRef = useRef(isCameraActive);
   const cameraOperationInProgress = useRef(false);
-  const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Detiene el bucle de detección de la vista previa; null si no está en marcha.
+  const stopDetectionLoopRef = useRef<(() => void) | null>(null);
+  const descriptorModelsLoadedRef = useRef(descriptorModelsLoaded);
+  const blinkTrackerRef = useRef(new BlinkTracker<ImageData>());
+  const challengeSequenceRef = useRef<ChallengeSequence<ImageData> | null>(null);
+  const onChallengeFailedRef = useRef(onChallengeFailed);
+  // Recortes de la vista previa, todos en la misma región del fotograma (`region`), con las cajas y
+  // los landmarks en las coordenadas del recorte.
+  const spoofFramesRef = useRef<(SpoofFrame & { raster: ImageData; region: FaceBox; timestamp: number })[]>([]);
 
   useEffect(() => {
     streamRef.current = stream;
   }, [stream]);
 
+  useEffect(() => {
+    descriptorModelsLoadedRef.current = descriptorModelsLoaded;
+  }, [descriptorModelsLoaded]);
+
   useEffect(() => {
     isCameraActiveRef.current = isCameraActive;
   }, [isCameraActive]);
 
+  useEffect(() => {
+    onChallengeFailedRef.current = onChallengeFailed;
+  }, [onChallengeFailed]);
+
+  useEffect(() => {
+    blinkTrackerRef.current.reset();
+    setBlinkEvent(null);
+  }, [blinkNonce]);
+
+  // Cada secuencia nueva del servidor empieza desde el fotograma neutro.
+  useEffect(() => {
+    challengeSequenceRef.current = livenessChallenge
+      ? new ChallengeSequence<ImageData>(livenessChallenge.challenges, livenessChallenge.timeoutMs)
+      : null;
+    setChallengeProgress(null);
+  }, [livenessChallenge]);
+
+  const stopDetectionLoop = useCallback(() => {
+    stopDetectionLoopRef.current?.();
+    stopDetectionLoopRef.current = null;
+  }, []);
+
   const loadModels = useCallback(async () => {
-    const MODEL_URL = '/models';
+    const modelNames = getRequiredModels(detector).map(model => model.modelName);
+    if (challengeRequired) {
+      modelNames.push(EXPRESSION_MODEL_NAME);
+    }
+    const [detectorModelName] = modelNames;
+    setModelsLoaded(false);
+    setDescriptorModelsLoaded(false);
+    setIntegrityFailure(null);
     setDetectionStatus("Cargando modelos de detección facial...");
-    console.log(`FaceCapture: Attempting to load models from base URL: ${MODEL_URL}`);
+    console.log(`FaceCapture: Attempting to load models (${modelNames.join(', ')}) from base URL: ${MODEL_BASE_URL}`);
     try {
-      await faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL);
-      setModelsLoaded(true);
-      setDetectionStatus("Modelos de detección cargados. Cargando modelos de reconocimiento...");
-      console.log("FaceCapture: TinyFaceDetector models loaded successfully.");
-
-      await Promise.all([
-        faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-        faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL)
-      ]);
+      // Los modelos y la detección viven en un Web Worker compartido; ya cargados, la petición
+      // termina al momento. El worker carga primero el detector, para que la vista previa empiece
+      // a buscar rostros.
+      const selection = await getFaceDetectionWorker().loadModels(detector, challengeRequired, modelName => {
+        if (modelName !== detectorModelName) return;
+        setModelsLoaded(true);
+        setDetectionStatus("Modelos de detección cargados. Cargando modelos de reconocimiento...");
+        console.log(`FaceCapture: ${modelName} loaded successfully.`);
+      });
       setDescriptorModelsLoaded(true);
-      setDetectionStatus("Todos los modelos cargados. Listo para detección y reconocimiento facial.");
-      console.log("FaceCapture: Landmark and Recognition models loaded successfully.");
+      setBackendSelection(selection);
+      const backendNote = selection.pinnedUnavailable && selection.preference !== 'auto'
+        ? `backend ${TF_BACKEND_LABELS[selection.backend]}; ${TF_BACKEND_LABELS[selection.preference]} no disponible`
+        : `backend ${TF_BACKEND_LABELS[selection.backend]}`;
+      setDetectionStatus(`Todos los modelos cargados (${backendNote}). Listo para detección y reconocimiento facial.`);
+      console.log(`FaceCapture: Landmark and Recognition models loaded successfully on the '${selection.backend}' backend.`, selection.benchmarkMs);
 
     } catch (e) {
       console.error("FaceCapture: Error loading models: ", e);
-      const errorMsg = `No se pudieron cargar los modelos faciales. Los archivos de manifiesto como 'tiny_face_detector_model-weights_manifest.json', 'face_landmark_68_model-weights_manifest.json', o 'face_recognition_model-weights_manifest.json' (y sus fragmentos) podrían faltar en '${MODEL_URL}/'. La detección de rostros en tiempo real y la extracción de descriptores NO funcionarán. Asegúrate de que los archivos de modelo estén en 'public/models/'. Revisa la pestaña Red del navegador por errores 404.`;
+      if (e instanceof ModelIntegrityError) {
+        // No se usa ningún modelo, ni siquiera el detector ya cargado: un archivo alterado podría
+        // aceptar cualquier rostro.
+        stopDetectionLoop();
+        setModelsLoaded(false);
+        setIntegrityFailure(e.file ?? MODEL_INTEGRITY_FILE);
+        setError(`Los modelos faciales no superaron la verificación de integridad (${e.message}). El reconocimiento facial queda bloqueado hasta que un administrador restaure los archivos originales de 'public/models/' o los vuelva a firmar con 'npm run sign:models'.`);
+        setDetectionStatus(`Error: Verificación de integridad de modelos fallida (${e.file ?? MODEL_INTEGRITY_FILE}).`);
+        toast({
+          title: "Modelos Faciales No Verificados",
+          description: `${e.message} El reconocimiento facial está bloqueado. Contacta al administrador.`,
+          variant: "destructive",
+          duration: 20000
+        });
+        return;
+      }
+      const manifestList = modelNames.map(name => `'${name}-weights_manifest.json'`).join(', ');
+      const errorMsg = `No se pudieron cargar los modelos faciales. Los archivos de manifiesto ${manifestList} (y sus fragmentos) podrían faltar en '${MODEL_BASE_URL}/'. La detección de rostros en tiempo real y la extracción de descriptores NO funcionarán. Asegúrate de que los archivos de modelo estén en 'public/models/'. Revisa la pestaña Red del navegador por errores 404.`;
       setError(errorMsg);
       setDetectionStatus(`Error: Modelos no encontrados. Revisa 'public/models/' y la pestaña Red por errores 404 en archivos de manifiesto de modelos. Detalles en consola.`);
       toast({
         title: "Error en Modelos Faciales (Probable 404)",
-        description: `No se pudieron cargar todos los modelos de face-api.js requeridos desde ${MODEL_URL}/. Asegúrate de que 'tiny_face_detector_model', 'face_landmark_68_model', y 'face_recognition_model' (manifiestos y fragmentos) estén en el directorio 'public/models/' de tu proyecto. Revisa la pestaña Red del navegador para detalles. Las funciones de procesamiento facial estarán limitadas.`,
+        description: `No se pudieron cargar todos los modelos de face-api.js requeridos desde ${MODEL_BASE_URL}/. Asegúrate de que ${modelNames.map(name => `'${name}'`).join(', ')} (manifiestos y fragmentos) estén en el directorio 'public/models/' de tu proyecto. Revisa la pestaña Red del navegador para detalles. Las funciones de procesamiento facial estarán limitadas.`,
         variant: "destructive",
         duration: 20000
       });
     }
-  }, [toast]);
+  }, [detector, challengeRequired, toast, stopDetectionLoop]);
+
+  useEffect(() => getFaceDetectionWorker().onModelProgress(progress => {
+    setModelDownloads(current => {
+      const others = current.filter(download => download.modelName !== progress.modelName);
+      return progress.status === 'downloading' && !progress.fromCache ? [...others, progress] : others;
+    });
+  }), []);
 
   useEffect(() => {
+    if (!settingsLoaded) {
+      setDetectionStatus("Cargando configuración de detección...");
+      return;
+    }
     loadModels();
-  }, [loadModels]);
+  }, [settingsLoaded, loadModels]);
 
   const stopCamera = useCallback(() => {
     console.log("FaceCapture: stopCamera called.");
-    if (detectionIntervalRef.current) {
-      clearInterval(detectionIntervalRef.current);
-      detectionIntervalRef.current = null;
-    }
+    stopDetectionLoop();
     if (detectionCanvasRef.current) {
       const context = detectionCanvasRef.current.getContext('2d');
       context?.clearRect(0, 0, detectionCanvasRef.current.width, detectionCanvasRef.current.height);
@@ -102,13 +293,90 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
     setStream(null);
     setIsCameraActive(false);
     setIsFaceDetectedInPreview(false);
-  }, []);
+    setPreviewQuality(null);
+    setPreviewFaceCount(0);
+    blinkTrackerRef.current.reset();
+    setBlinkEvent(null);
+    challengeSequenceRef.current?.reset();
+    setChallengeProgress(null);
+    spoofFramesRef.current = [];
+    setSpoofFrameCount(0);
+    setSpoofMotionOk(false);
+    setTelemetry(null);
+  }, [stopDetectionLoop]);
+
+  // Elige el rostro según la política de varios rostros, muestra la calidad que evaluó el worker y,
+  // si se exige prueba de vida, sigue su parpadeo y sus retos. Los fotogramas que se conservan como
+  // evidencia llegan del worker recortados alrededor del rostro, sin espejo.
+  // Devuelve el rostro elegido, o null si no hay ninguno válido.
+  const analyzePreviewFace = useCallback(({ faces, crop, width, height }: FrameDetection) => {
+    const selection = selectFace(faces, detector.multipleFacePolicy, { width, height }, f => f.box);
+    const face = selection.status === 'selected' ? selection.face : null;
+    const landmarks = face?.landmarks;
+    if (!face || !landmarks || !face.quality) {
+      // Sin rostro (o con varios rechazados) se reinicia el seguimiento: el parpadeo debe ser del rostro que se captura.
+      blinkTrackerRef.current.reset();
+      setBlinkEvent(null);
+      setPreviewQuality(null);
+      spoofFramesRef.current = [];
+      setSpoofFrameCount(0);
+      setSpoofMotionOk(false);
+      return null;
+    }
+    setPreviewQuality(face.quality);
+    const timestamp = performance.now();
+    const raster = crop?.image ?? null;
+
+    const spoofFrames = spoofFramesRef.current;
+    const lastSpoofFrame = spoofFrames[spoofFrames.length - 1];
+    if (detectPresentationAttack && crop && timestamp - (lastSpoofFrame?.timestamp ?? -Infinity) >= SPOOF_FRAME_INTERVAL_MS) {
+      // El worker cambia de región cuando el rostro sale de la anterior; la secuencia empieza de nuevo.
+      const { x, y, width: regionWidth, height: regionHeight } = crop.region;
+      const sameRegion = !!lastSpoofFrame && lastSpoofFrame.region.x === x && lastSpoofFrame.region.y === y
+        && lastSpoofFrame.region.width === regionWidth && lastSpoofFrame.region.height === regionHeight;
+      spoofFramesRef.current = [...(sameRegion ? spoofFrames : []), {
+        raster: crop.image,
+        region: crop.region,
+        landmarks: landmarks.map(p => ({ x: p.x - x, y: p.y - y })),
+        box: { ...face.box, x: face.box.x - x, y: face.box.y - y },
+        timestamp,
+      }].slice(-SPOOF_FRAME_COUNT);
+      setSpoofFrameCount(spoofFramesRef.current.length);
+      setSpoofMotionOk(hasSufficientMotion(spoofFramesRef.current));
+    }
+
+    const sequence = challengeSequenceRef.current;
+    if (sequence && raster) {
+      const features = measureChallengeFeatures(landmarks, { mirrored: false, happy: face.happy });
+      const progress = sequence.update(features, raster, timestamp);
+      if (progress.status === 'timed_out') {
+        console.log(`FaceCapture: Liveness challenge '${sequence.challenges[progress.step]}' timed out.`);
+        toast({ title: "Tiempo Agotado", description: "No se completó el reto a tiempo. Se empezará de nuevo con retos nuevos.", variant: "destructive" });
+        sequence.reset();
+        setChallengeProgress(null);
+        onChallengeFailedRef.current?.();
+      } else {
+        setChallengeProgress(progress);
+      }
+    }
+
+    if (livenessCheck === 'blink' && raster) {
+      const event = blinkTrackerRef.current.update(landmarks, raster, timestamp);
+      if (event) {
+        console.log(`FaceCapture: Blink detected (EAR ${event.openEar.toFixed(3)} -> ${event.closedEar.toFixed(3)}).`);
+        setBlinkEvent(event);
+      } else {
+        setBlinkEvent(current => (current && timestamp - current.timestamp > LIVENESS_WINDOW_MS ? null : current));
+      }
+    }
+    return face;
+  }, [detector, livenessCheck, detectPresentationAttack, toast]);
 
   const startDetection = useCallback(() => {
     if (!videoRef.current || !detectionCanvasRef.current || !modelsLoaded || !isCameraActiveRef.current) {
       return;
     }
-    console.log("FaceCapture: Starting real-time detection interval.");
+    console.log("FaceCapture: Starting real-time detection loop.");
 
     const video = videoRef.current;
     const canvas = detectionCanvasRef.current;
@@ -119,26 +387,71 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
         return;
     }
 
-    faceapi.matchDimensions(canvas, displaySize);
+    // El worker detecta sobre el fotograma a resolución nativa, así que las cajas ya están en las
+    // coordenadas del canvas.
+    canvas.width = displaySize.width;
+    canvas.height = displaySize.height;
 
-    detectionIntervalRef.current = setInterval(async () => {
-      if (video.paused || video.ended || !isCameraActiveRef.current) {
-        if(detectionIntervalRef.current) clearInterval(detectionIntervalRef.current);
-        setIsFaceDetectedInPreview(false);
+    // El parpadeo dura pocas décimas de segundo: con prueba de vida se detecta más a menudo.
+    const scheduler = new AdaptiveDetectionScheduler(detector, livenessCheck === 'blink' || challengeRequired ? 100 : 200);
+    let active = true;
+
+    const detectFrame = async () => {
+      // Con los landmarks cargados se evalúa además la calidad (pose incluida); antes, solo se detecta.
+      const withLandmarks = descriptorModelsLoadedRef.current;
+      // Solo vuelven píxeles, recortados, de los fotogramas que pueden conservarse como evidencia:
+      // todos mientras se sigue el parpadeo o un reto, y uno por intervalo para la secuencia.
+      const spoofFrames = spoofFramesRef.current;
+      const lastSpoofFrame = spoofFrames[spoofFrames.length - 1];
+      const keepFrame = livenessCheck === 'blink'
+        || (!!challengeSequenceRef.current && !challengeSequenceRef.current.result)
+        || (detectPresentationAttack && performance.now() - (lastSpoofFrame?.timestamp ?? -Infinity) >= SPOOF_FRAME_INTERVAL_MS);
+      let detection: FrameDetection;
+      try {
+        detection = await getFaceDetectionWorker().detect(await grabVideoFrame(video), scheduler.settings, {
+          withLandmarks,
+          // Las expresiones solo hacen falta en los pasos de los retos que las usan.
+          withExpressions: withLandmarks && !!challengeSequenceRef.current?.needsExpressions(),
+          crop: withLandmarks && keepFrame ? { region: lastSpoofFrame?.region ?? null } : null,
+        });
+      } catch (e) {
+        scheduler.fail();
+        // Al detener la cámara o desmontar el componente se descartan las detecciones pendientes.
+        if (active) console.error("FaceCapture: Preview detection failed:", e);
         return;
       }
+      scheduler.complete(performance.now());
+      if (!active) return;
 
-      const detections = await faceapi.detectAllFaces(video, new faceapi.TinyFaceDetectorOptions({ inputSize: 160, scoreThreshold: 0.5 }));
-      setIsFaceDetectedInPreview(detections.length > 0);
+      const faces = detection.faces;
+      let selected: WorkerFace | null;
+      if (withLandmarks) {
+        selected = analyzePreviewFace(detection);
+      } else {
+        const selection = selectFace(faces, detector.multipleFacePolicy, displaySize, face => face.box);
+        selected = selection.status === 'selected' ? selection.face : null;
+        setPreviewQuality(null);
+      }
+      setIsFaceDetectedInPreview(faces.length > 0);
+      setPreviewFaceCount(faces.length);
+      drawFaceOverlays(canvas, faces.map(face => face.box), selected ? faces.indexOf(selected) : -1, detector.multipleFacePolicy);
+      if (showTelemetry) setTelemetry(scheduler.telemetry(performance.now()));
+    };
 
-      const resizedDetections = faceapi.resizeResults(detections, displaySize);
-      const context = canvas.getContext('2d');
-      if (context) {
-        context.clearRect(0, 0, canvas.width, canvas.height);
-        faceapi.draw.drawDetections(canvas, resizedDetections);
+    // Una sola detección en curso: los fotogramas que llegan mientras tanto se omiten.
+    const stopWatching = watchVideoFrames(video, now => {
+      if (video.paused || video.ended || !isCameraActiveRef.current) {
+        stopDetectionLoop();
+        setIsFaceDetectedInPreview(false);
+        return;
       }
-    }, 200);
-  }, [modelsLoaded]);
+      if (scheduler.onFrame(now)) detectFrame();
+    });
+    stopDetectionLoopRef.current = () => {
+      active = false;
+      stopWatching();
+    };
+  }, [modelsLoaded, detector, analyzePreviewFace, livenessCheck, challengeRequired, detectPresentationAttack, showTelemetry, stopDetectionLoop]);
 
 
   const startCamera = useCallback(async () => {
@@ -162,8 +475,20 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
 
     try {
       if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-        const mediaStream = await navigator.mediaDevices.getUserMedia({ video: { width: imageSize, height: imageSize } });
-        console.log("FaceCapture: Got user media stream.");
+        const resolution = { width: captureWidth, height: captureHeight };
+        let mediaStream: MediaStream;
+        try {
+          mediaStream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(resolution, cameraFacing, cameraDeviceId) });
+        } catch (deviceError) {
+          // La cámara recordada no está conectada: se usa la predeterminada, sin olvidar la elección.
+          const name = (deviceError as { name?: string } | null)?.name;
+          if (!cameraDeviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw deviceError;
+          console.warn(`FaceCapture: Camera ${cameraDeviceId} not available (${name}), using the default camera.`);
+          mediaStream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(resolution, cameraFacing, null) });
+        }
+        const trackSettings = mediaStream.getVideoTracks()[0]?.getSettings();
+        console.log(`FaceCapture: Got user media stream (${trackSettings?.width}x${trackSettings?.height}).`);
+        setActiveDeviceId(trackSettings?.deviceId ?? null);
         setStream(mediaStream);
       } else {
         const msg = "El acceso a la cámara no es compatible con tu navegador.";
@@ -185,14 +510,52 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
       setStream(null); setIsCameraActive(false); setIsStartingCamera(false); cameraOperationInProgress.current = false;
       console.error("FaceCapture: " + message, err);
     }
-  }, [imageSize, toast]);
+  }, [captureWidth, captureHeight, cameraFacing, cameraDeviceId, toast]);
 
   useEffect(() => {
     if (!imageDataUrl && !isCameraActiveRef.current && !streamRef.current && !cameraOperationInProgress.current && !error) {
       console.log("FaceCapture: Auto-starting camera via useEffect.");
       startCamera();
     }
-  }, [imageDataUrl, error, startCamera]);
+  }, [imageDataUrl, error, startCamera, cameraRestartCount]);
+
+  // Lista de cámaras para el selector; se actualiza al conectar o desconectar una.
+  useEffect(() => {
+    if (!stream || !navigator.mediaDevices) return;
+    let cancelled = false;
+    const refresh = () => {
+      listCameras()
+        .then(devices => { if (!cancelled) setCameraDevices(devices); })
+        .catch(error => console.warn("FaceCapture: Could not enumerate cameras:", error));
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [stream]);
+
+  const restartCamera = () => {
+    stopCamera();
+    setCameraRestartCount(count => count + 1);
+  };
+
+  const handleSelectCamera = (deviceId: string) => {
+    if (deviceId === activeDeviceId) return;
+    console.log(`FaceCapture: Switching to camera ${deviceId}.`);
+    setCameraDeviceId(deviceId);
+    restartCamera();
+  };
+
+  const handleToggleFacing = () => {
+    const next: CameraFacing = cameraFacing === 'user' ? 'environment' : 'user';
+    console.log(`FaceCapture: Switching to the ${next} camera.`);
+    // En el móvil manda la orientación; un dispositivo elegido antes la anularía.
+    setCameraDeviceId(null);
+    setCameraFacing(next);
+    restartCamera();
+  };
 
 
   useEffect(() => {
@@ -238,7 +601,7 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
   }, [stream, modelsLoaded, stopCamera, toast]); // startDetection removed from here to be called explicitly
 
    useEffect(() => {
-    if (isCameraActive && modelsLoaded && !detectionIntervalRef.current) {
+    if (isCameraActive && modelsLoaded && !stopDetectionLoopRef.current) {
       startDetection();
     }
   }, [isCameraActive, modelsLoaded, startDetection]);
@@ -252,60 +615,181 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
     };
   }, [stopCamera]);
 
+  // Copia el fotograma actual del video (en espejo) al canvas oculto y lo devuelve en PNG. Solo para
+  // cuando no se puede calcular el descriptor; las capturas normales las codifica el worker.
+  const grabFrame = (video: HTMLVideoElement, captureCanvas: HTMLCanvasElement): string => {
+    captureCanvas.width = video.videoWidth;
+    captureCanvas.height = video.videoHeight;
+    const context = captureCanvas.getContext('2d');
+    if (context) {
+      context.translate(video.videoWidth, 0);
+      context.scale(-1, 1); // Mirror the snapshot
+      context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+      context.setTransform(1, 0, 0, 1, 0, 0); // Reset transform
+    }
+    return captureCanvas.toDataURL('image/png');
+  };
+
+  // Convierte un fotograma de la vista previa en PNG en espejo, igual que las capturas.
+  const rasterToMirroredDataUrl = (raster: ImageData): string => {
+    const source = document.createElement('canvas');
+    source.width = raster.width;
+    source.height = raster.height;
+    source.getContext('2d')?.putImageData(raster, 0, 0);
+    const mirrored = document.createElement('canvas');
+    mirrored.width = raster.width;
+    mirrored.height = raster.height;
+    const context = mirrored.getContext('2d');
+    if (context) {
+      context.translate(raster.width, 0);
+      context.scale(-1, 1);
+      context.drawImage(source, 0, 0);
+    }
+    return mirrored.toDataURL('image/png');
+  };
+
+  const toChallengeEvidence = (nonce: string, result: ChallengeSequenceResult<ImageData>): ChallengeLivenessEvidence => ({
+    nonce,
+    neutralFrameUri: rasterToMirroredDataUrl(result.neutralFrame),
+    responses: result.responses.map(({ challenge, frame }) => ({ challenge, frameUri: rasterToMirroredDataUrl(frame) })),
+  });
+
+  const toLivenessEvidence = (nonce: string, event: BlinkEvent<ImageData>): LivenessEvidence => ({
+    method: 'blink',
+    nonce,
+    openFrameUri: rasterToMirroredDataUrl(event.openFrame),
+    closedFrameUri: rasterToMirroredDataUrl(event.closedFrame),
+    openEar: event.openEar,
+    closedEar: event.closedEar,
+  });
+
+  // El worker detecta todos los rostros del fotograma en espejo, calcula sus descriptores y lo
+  // codifica en PNG; aquí se aplica la política de varios rostros.
+  const describeFrame = async (video: HTMLVideoElement) => {
+    const description = await getFaceDetectionWorker().describe(await grabVideoFrame(video), detector, { mirror: true });
+    return { description, selection: selectFace(description.faces, detector.multipleFacePolicy, description, face => face.box) };
+  };
+
+  const captureSingle = async (video: HTMLVideoElement) => {
+    const { description, selection } = await describeFrame(video);
+    const dataUrl = description.imageUri;
+    if (selection.status === 'rejected') {
+      console.warn(`FaceCapture: ${selection.faces.length} faces in captured image, rejected by policy.`);
+      toast({title: "Varios Rostros", description: MULTIPLE_FACE_MESSAGES.reject, variant: "destructive"});
+      return { dataUrl, descriptor: null, details: null };
+    }
+    if (selection.status === 'none') {
+      console.warn("FaceCapture: Could not compute descriptor, face not detected in captured image.");
+      toast({title: "Advertencia de Descriptor", description: "No se pudo calcular el descriptor facial de la imagen capturada. Intenta con una toma más clara.", variant: "default", duration: 5000});
+      return { dataUrl, descriptor: null, details: null };
+    }
+    console.log("FaceCapture: Descriptor computed successfully.");
+    const detectionResult = selection.face;
+    return {
+      dataUrl,
+      descriptor: detectionResult.descriptor,
+      details: { detectionScore: detectionResult.score },
+    };
+  };
+
+  // Toma BURST_FRAME_COUNT fotogramas, descarta los de baja confianza y combina el resto en un
+  // descriptor medio ponderado por confianza y calidad. La imagen es la del mejor fotograma.
+  const captureBurst = async (video: HTMLVideoElement) => {
+    const frames: CapturedFrame[] = [];
+    let lastDataUrl = '';
+    for (let i = 0; i < BURST_FRAME_COUNT; i++) {
+      if (i > 0) await new Promise(resolve => setTimeout(resolve, BURST_FRAME_INTERVAL_MS));
+      const { description, selection } = await describeFrame(video);
+      lastDataUrl = description.imageUri;
+      const detectionResult = selection.status === 'selected' ? selection.face : null;
+      if (detectionResult && detectionResult.score >= BURST_MIN_DETECTION_SCORE) {
+        frames.push({
+          imageUri: lastDataUrl,
+          descriptor: detectionResult.descriptor,
+          detectionScore: detectionResult.score,
+          qualityScore: detectionResult.quality?.score ?? 0,
+        });
+      }
+    }
+    console.log(`FaceCapture: Burst kept ${frames.length} of ${BURST_FRAME_COUNT} frames.`);
+
+    if (frames.length < BURST_MIN_KEPT_FRAMES) {
+      toast({title: "Ráfaga Insuficiente", description: "Muy pocos fotogramas tuvieron una detección fiable. Quédate quieto, mejora la iluminación e intenta de nuevo.", variant: "default", duration: 6000});
+      const bestFrame = frames[0];
+      return { dataUrl: bestFrame?.imageUri ?? lastDataUrl, descriptor: null, details: null };
+    }
+
+    const frameWeight = (frame: CapturedFrame) => frame.detectionScore * frame.qualityScore;
+    const bestFrame = frames.reduce((a, b) => (frameWeight(b) > frameWeight(a) ? b : a));
+    const descriptor = weightedMeanDescriptor(frames.map(frame => ({ descriptor: frame.descriptor, weight: frameWeight(frame) })));
+    if (!descriptor) {
+      toast({title: "Ráfaga Insuficiente", description: "Ningún fotograma tuvo calidad suficiente. Quédate quieto, mejora la iluminación e intenta de nuevo.", variant: "default", duration: 6000});
+      return { dataUrl: bestFrame.imageUri, descriptor: null, details: null };
+    }
+    return {
+      dataUrl: bestFrame.imageUri,
+      descriptor,
+      details: { detectionScore: bestFrame.detectionScore, burstFrames: frames },
+    };
+  };
+
   const captureFace = async () => {
-    if (videoRef.current && canvasRef.current && stream && isCameraActive && isFaceDetectedInPreview) {
+    if (videoRef.current && canvasRef.current && stream && isCameraActive && isFaceDetectedInPreview && isFaceSelectionOk && previewQuality?.passed && isLivenessOk && isChallengeOk && isSpoofSequenceReady) {
       setIsTakingPicture(true);
+      // La vista previa se detiene para que no compita con la captura por el worker.
+      stopDetectionLoop();
       const video = videoRef.current;
       const captureCanvas = canvasRef.current;
-      captureCanvas.width = video.videoWidth;
-      captureCanvas.height = video.videoHeight;
-      const context = captureCanvas.getContext('2d');
-      if (context) {
-        context.translate(video.videoWidth, 0);
-        context.scale(-1, 1); // Mirror the snapshot
-        context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-        context.setTransform(1, 0, 0, 1, 0, 0); // Reset transform
-      }
-      const dataUrl = captureCanvas.toDataURL('image/png');
-      setImageDataUrl(dataUrl);
 
+      let dataUrl: string;
       let descriptor: number[] | null = null;
+      let details: FaceCaptureDetails | null = null;
       if (descriptorModelsLoaded) {
         try {
-          const img = document.createElement('img');
-          img.src = dataUrl;
-          await new Promise((resolve, reject) => { 
-            img.onload = resolve;
-            img.onerror = reject;
-          });
-
-          const detectionResult = await faceapi.detectSingleFace(img, new faceapi.TinyFaceDetectorOptions())
-                                              .withFaceLandmarks()
-                                              .withFaceDescriptor();
-          if (detectionResult) {
-            descriptor = Array.from(detectionResult.descriptor); 
-            console.log("FaceCapture: Descriptor computed successfully.");
-          } else {
-            console.warn("FaceCapture: Could not compute descriptor, face not detected in captured image.");
-            toast({title: "Advertencia de Descriptor", description: "No se pudo calcular el descriptor facial de la imagen capturada. Intenta con una toma más clara.", variant: "default", duration: 5000});
-          }
+          ({ dataUrl, descriptor, details } = captureMode === 'burst'
+            ? await captureBurst(video)
+            : await captureSingle(video));
         } catch (descError) {
           console.error("FaceCapture: Error computing descriptor:", descError);
           toast({title: "Error de Descriptor", description: "Falló el cálculo del descriptor facial.", variant: "destructive"});
+          dataUrl = grabFrame(video, captureCanvas);
         }
       } else {
         console.warn("FaceCapture: Descriptor models not loaded, cannot compute descriptor.");
         toast({title: "Modelos Faltantes", description: "Modelos de reconocimiento no cargados. No se puede calcular el descriptor.", variant: "destructive"});
+        dataUrl = grabFrame(video, captureCanvas);
+      }
+      if (details && blinkEvent && blinkNonce && livenessCheck === 'blink') {
+        details = { ...details, liveness: toLivenessEvidence(blinkNonce, blinkEvent) };
+      }
+      const challengeResult = challengeSequenceRef.current?.result;
+      if (details && livenessChallenge && challengeResult) {
+        details = { ...details, challengeResponse: toChallengeEvidence(livenessChallenge.nonce, challengeResult) };
       }
+      if (details && detectPresentationAttack) {
+        const frames = spoofFramesRef.current;
+        // El servidor repite el análisis y decide; aquí solo se registra como referencia.
+        console.log(`FaceCapture: Presentation attack score ${analyzePresentationAttack(frames).score.toFixed(2)} over ${frames.length} frames.`);
+        details = { ...details, spoofFrames: frames.map(frame => rasterToMirroredDataUrl(frame.raster)) };
+      }
+      setImageDataUrl(dataUrl);
       
       setIsTakingPicture(false);
-      onFaceCaptured(dataUrl, descriptor); 
+      onFaceCaptured(dataUrl, descriptor, details); 
       stopCamera(); 
       
     } else if (!isCameraActive) {
         toast({ title: "Cámara Apagada", description: "Por favor, inicia la cámara primero.", variant: "destructive" });
     } else if (!isFaceDetectedInPreview) {
         toast({ title: "No se Detectó Rostro", description: "Asegúrate de que tu rostro esté claramente visible en el recuadro.", variant: "destructive" });
+    } else if (!isFaceSelectionOk) {
+        toast({ title: "Varios Rostros", description: MULTIPLE_FACE_MESSAGES.reject, variant: "destructive" });
+    } else if (previewQuality && !previewQuality.passed) {
+        toast({ title: "Calidad Insuficiente", description: QUALITY_ISSUE_MESSAGES[previewQuality.issues[0]], variant: "destructive" });
+    } else if (!isLivenessOk) {
+        toast({ title: "Prueba de Vida Pendiente", description: "Parpadea frente a la cámara antes de capturar.", variant: "destructive" });
+    } else if (!isChallengeOk) {
+        toast({ title: "Retos Pendientes", description: "Completa los retos que se indican en la cámara antes de capturar.", variant: "destructive" });
     }
   };
 
@@ -314,11 +798,15 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
     setImageDataUrl(null);
     setError(null);
     setIsFaceDetectedInPreview(false);
+    blinkTrackerRef.current.reset();
+    setBlinkEvent(null);
+    challengeSequenceRef.current?.reset();
+    setChallengeProgress(null);
+    spoofFramesRef.current = [];
+    setSpoofFrameCount(0);
+    setSpoofMotionOk(false);
 
-    if (detectionIntervalRef.current) {
-      clearInterval(detectionIntervalRef.current);
-      detectionIntervalRef.current = null;
-    }
+    stopDetectionLoop();
     if (!isCameraActiveRef.current && !cameraOperationInProgress.current) {
       console.log("FaceCapture: Retake - camera not active, starting camera.");
       startCamera();
@@ -344,11 +832,17 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
     previewMessageArea = (
       <div className="absolute inset-0 flex flex-col items-center justify-center bg-destructive/10 p-4 text-center">
         <AlertTriangle size={imageSize / 5} className="mb-2 text-destructive" />
-        <p className="text-sm font-semibold text-destructive">Error al Cargar Modelos Faciales</p>
+        <p className="text-sm font-semibold text-destructive">{integrityFailure ? "Modelos Faciales No Verificados" : "Error al Cargar Modelos Faciales"}</p>
         <p className="text-xs text-destructive/80 mt-1">{detectionStatus.replace("Error: Models not found. Check 'public/models/' and Network tab for 404s on model manifest files. Details in console.", "Error: Modelos no encontrados. Verifica `public/models/` y la pestaña Red del navegador por errores 404 en los archivos de modelos. Revisa la consola para más detalles.")}</p>
-        <p className="text-xs text-muted-foreground mt-2">
-          Verifica que los archivos de modelo (ej. `tiny_face_detector_model-weights_manifest.json`) estén en `public/models/`. Revisa la pestaña Red del navegador por errores 404.
-        </p>
+        {integrityFailure ? (
+          <p className="text-xs text-muted-foreground mt-2">
+            `{integrityFailure}` no coincide con `{MODEL_INTEGRITY_FILE}`. El reconocimiento está bloqueado hasta que un administrador restaure `public/models/` o firme los modelos con `npm run sign:models`.
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground mt-2">
+            Verifica que los archivos de modelo (ej. `tiny_face_detector_model-weights_manifest.json`) estén en `public/models/`. Revisa la pestaña Red del navegador por errores 404.
+          </p>
+        )}
       </div>
     );
   } else if (error && !isCameraActive && !imageDataUrl) {
@@ -373,6 +867,21 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
   const showVideoFeed = isCameraActive && !imageDataUrl;
   let captureButtonDynamicText = captureButtonText;
   const allModelsFullyLoaded = modelsLoaded && descriptorModelsLoaded;
+  const isQualityOk = !!previewQuality?.passed;
+  const qualityHint = previewQuality && !previewQuality.passed ? QUALITY_ISSUE_MESSAGES[previewQuality.issues[0]] : null;
+  const multipleFaceMessage = previewFaceCount > 1 ? MULTIPLE_FACE_MESSAGES[detector.multipleFacePolicy] : null;
+  // Mientras hay un reto en curso su instrucción sustituye a las indicaciones de calidad (girar la
+  // cabeza, por ejemplo, incumple a propósito la pose frontal).
+  let challengeInstruction: string | null = null;
+  if (challengeRequired && !livenessChallenge) {
+    challengeInstruction = 'Preparando los retos de la prueba de vida...';
+  } else if (livenessChallenge && challengeProgress?.status === 'in_progress') {
+    const step = challengeProgress.step;
+    const seconds = Math.ceil(challengeProgress.remainingMs / 1000);
+    challengeInstruction = `Reto ${step + 1}/${livenessChallenge.challenges.length}: ${CHALLENGE_INSTRUCTIONS[livenessChallenge.challenges[step]]} (${seconds} s)`;
+  } else if (livenessChallenge && challengeProgress?.status !== 'completed' && !qualityHint) {
+    challengeInstruction = NEUTRAL_INSTRUCTION;
+  }
 
   if (showVideoFeed && !allModelsFullyLoaded && !detectionStatus.startsWith("Error:")) {
     captureButtonDynamicText = "Cargando Modelos...";
@@ -380,6 +889,16 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
     captureButtonDynamicText = "Faltan Modelos de Detección";
   } else if (showVideoFeed && allModelsFullyLoaded && !isFaceDetectedInPreview) {
     captureButtonDynamicText = "Posiciona el Rostro en el Recuadro";
+  } else if (showVideoFeed && allModelsFullyLoaded && !isFaceSelectionOk) {
+    captureButtonDynamicText = "Solo Debe Aparecer un Rostro";
+  } else if (showVideoFeed && allModelsFullyLoaded && !isQualityOk) {
+    captureButtonDynamicText = "Esperando una Imagen de Calidad";
+  } else if (showVideoFeed && allModelsFullyLoaded && !isChallengeOk) {
+    captureButtonDynamicText = "Completa los Retos";
+  } else if (showVideoFeed && allModelsFullyLoaded && !isLivenessOk) {
+    captureButtonDynamicText = "Parpadea para Continuar";
+  } else if (showVideoFeed && allModelsFullyLoaded && spoofFrameCount >= SPOOF_MIN_FRAMES && !isSpoofSequenceReady) {
+    captureButtonDynamicText = "Mueve Ligeramente la Cabeza";
   }
 
 
@@ -388,7 +907,7 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
       <div
         className="relative rounded-lg overflow-hidden border-2 border-dashed border-primary bg-muted data-[capturing=true]:animate-pulse-border"
         style={previewStyle}
-        data-capturing={showVideoFeed && !isTakingPicture && allModelsFullyLoaded && isFaceDetectedInPreview}
+        data-capturing={showVideoFeed && !isTakingPicture && allModelsFullyLoaded && isFaceDetectedInPreview && isFaceSelectionOk && isQualityOk && isLivenessOk && isChallengeOk && isSpoofSequenceReady}
       >
         <video
           ref={videoRef}
@@ -401,7 +920,7 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
           )}
           onPlay={() => {
             console.log("FaceCapture: Video onPlay event triggered.");
-            if (modelsLoaded && isCameraActiveRef.current && !detectionIntervalRef.current) { 
+            if (modelsLoaded && isCameraActiveRef.current && !stopDetectionLoopRef.current) { 
               startDetection();
             }
           }}
@@ -424,6 +943,13 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
             <div className="absolute bottom-2 left-2 right-2 bg-black/50 text-white text-xs p-1 rounded text-center">
                 <Loader2 className="inline-block h-3 w-3 mr-1 animate-spin" />
                 {detectionStatus}
+                {modelDownloads.map(download => (
+                  <div key={download.modelName} className="mt-1 flex items-center gap-1">
+                    <span className="truncate flex-1 text-left">{download.modelName}</span>
+                    <Progress value={(download.loadedBytes / download.totalBytes) * 100} className="h-1 w-16 bg-white/30" />
+                    <span className="w-8 text-right">{Math.round((download.loadedBytes / download.totalBytes) * 100)}%</span>
+                  </div>
+                ))}
             </div>
         )}
          {showVideoFeed && allModelsFullyLoaded && !isFaceDetectedInPreview && !isStartingCamera && !error && (
@@ -431,9 +957,67 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
             Posiciona tu rostro en el recuadro.
           </div>
         )}
+        {showVideoFeed && allModelsFullyLoaded && multipleFaceMessage && !isTakingPicture && (
+          <div className={cn(
+            "absolute left-2 right-2 text-white text-xs p-1 rounded text-center font-medium",
+            isFaceSelectionOk ? "bottom-9 bg-blue-600/80" : "bottom-2 bg-destructive/90"
+          )}>
+            {multipleFaceMessage}
+          </div>
+        )}
+        {showVideoFeed && allModelsFullyLoaded && isFaceDetectedInPreview && isFaceSelectionOk && challengeInstruction && !isTakingPicture && (
+          <div className="absolute bottom-2 left-2 right-2 bg-primary/80 text-primary-foreground text-xs p-1 rounded text-center font-medium">
+            {challengeInstruction}
+          </div>
+        )}
+        {showVideoFeed && allModelsFullyLoaded && isFaceDetectedInPreview && isFaceSelectionOk && qualityHint && !challengeInstruction && !isTakingPicture && (
+          <div className="absolute bottom-2 left-2 right-2 bg-amber-500/80 text-white text-xs p-1 rounded text-center font-medium">
+            {qualityHint}
+          </div>
+        )}
+        {showVideoFeed && allModelsFullyLoaded && isFaceDetectedInPreview && livenessCheck === 'blink' && !isTakingPicture && (
+          <div className={cn(
+            "absolute top-2 left-2 max-w-[65%] text-white text-[10px] px-1 rounded flex items-center gap-1",
+            isLivenessOk ? "bg-green-600/80" : "bg-black/50"
+          )}>
+            {isLivenessOk ? <><CheckCircle2 size={10} /> Parpadeo detectado</> : 'Parpadea para confirmar que eres una persona real'}
+          </div>
+        )}
+        {showVideoFeed && previewQuality && (
+          <div className="absolute top-2 right-2 bg-black/50 text-white text-[10px] px-1 rounded">
+            Calidad: {Math.round(previewQuality.score * 100)}%
+          </div>
+        )}
+        {showVideoFeed && showTelemetry && telemetry && (
+          <div className="absolute top-7 right-2 bg-black/60 text-white text-[10px] font-mono px-1 rounded text-right leading-tight">
+            <div>{telemetry.detectionFps.toFixed(0)}/{telemetry.videoFps.toFixed(0)} fps</div>
+            <div>{Math.round(telemetry.latencyMs)} ms</div>
+            <div>{telemetry.skippedFrames} omitidos</div>
+            {telemetry.inputSize !== null && <div>entrada {telemetry.inputSize}px</div>}
+            {backendSelection && <div>{TF_BACKEND_LABELS[backendSelection.backend]}</div>}
+          </div>
+        )}
       </div>
       <canvas ref={canvasRef} className="hidden"></canvas> 
 
+      {showVideoFeed && !isTakingPicture && cameraDevices.length > 1 && (isMobile ? (
+        <Button onClick={handleToggleFacing} className="w-full" variant="outline" disabled={isStartingCamera}>
+          <SwitchCamera size={18} className="mr-2" />
+          {cameraFacing === 'user' ? 'Usar Cámara Trasera' : 'Usar Cámara Frontal'}
+        </Button>
+      ) : (
+        <Select value={activeDeviceId ?? undefined} onValueChange={handleSelectCamera} disabled={isStartingCamera}>
+          <SelectTrigger className="w-full" aria-label="Cámara">
+            <SelectValue placeholder="Elegir cámara" />
+          </SelectTrigger>
+          <SelectContent>
+            {cameraDevices.map((device, index) => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>{cameraLabel(device, index)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+
 
       {(!isCameraActive && !showVideoFeed && !imageDataUrl) && (
          <Button onClick={startCamera} className="w-full" variant="outline" disabled={isStartingCamera || cameraOperationInProgress.current}>
@@ -443,9 +1027,9 @@ const FaceCapture: React.FC<FaceCaptureProps> = ({
       )}
 
       {showVideoFeed && (
-        <Button onClick={captureFace} disabled={isTakingPicture || !allModelsFullyLoaded || !isFaceDetectedInPreview} className="w-full bg-accent hover:bg-accent/90">
+        <Button onClick={captureFace} disabled={isTakingPicture || !allModelsFullyLoaded || !isFaceDetectedInPreview || !isFaceSelectionOk || !isQualityOk || !isLivenessOk || !isChallengeOk || !isSpoofSequenceReady} className="w-full bg-accent hover:bg-accent/90">
           {isTakingPicture ? <Loader2 size={18} className="mr-2 animate-spin" /> : <ScanFace size={18} className="mr-2" />}
-          {isTakingPicture ? 'Procesando...' : captureButtonDynamicText}
+          {isTakingPicture ? (captureMode === 'burst' ? 'Capturando ráfaga...' : 'Procesando...') : captureButtonDynamicText}
         </Button>
       )}
 
@@ -1,39 +1,129 @@
-
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/auth-context';
 import FaceCapture from '@/components/face/face-capture';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import useAppSettings from '@/hooks/use-app-settings';
+import type { ChallengeLivenessEvidence, FaceCaptureDetails, LivenessChallenge, LivenessEvidence, LoginPolicy } from '@/types';
+import { requestBlinkNonce, requestLivenessChallenge } from '@/lib/user-api';
+import { ApiError } from '@/lib/api-client';
 import Link from 'next/link';
 import { Loader2, LogIn, UserCheck } from 'lucide-react';
 
+type LoginMode = Exclude<LoginPolicy, 'both'>;
+
 export default function LoginForm() {
   const [capturedFaceUri, setCapturedFaceUri] = useState<string | null>(null);
   const [capturedFaceDescriptor, setCapturedFaceDescriptor] = useState<number[] | null>(null);
+  const [liveness, setLiveness] = useState<LivenessEvidence | undefined>(undefined);
+  // Retos emitidos por el servidor para el intento actual y la respuesta capturada.
+  const [livenessChallenge, setLivenessChallenge] = useState<LivenessChallenge | null>(null);
+  const [challengeResponse, setChallengeResponse] = useState<ChallengeLivenessEvidence | undefined>(undefined);
+  const [spoofFrames, setSpoofFrames] = useState<string[] | undefined>(undefined);
+  // Nonce del servidor al que se ata la evidencia de parpadeo; como los retos, vale para un intento.
+  const [blinkNonce, setBlinkNonce] = useState<LivenessChallenge | null>(null);
   const [isLoggingIn, setIsLoggingIn] = useState(false);
-  const { loginWithFace, users, loading: authLoading } = useAuth();
+  const [selectedMode, setSelectedMode] = useState<LoginMode>('identification');
+  // Tras un resultado ambiguo se pide el correo como segundo factor y se reutiliza la misma captura.
+  const [needsSecondFactor, setNeedsSecondFactor] = useState(false);
+  // Cuenta indicada por el usuario: obligatoria en verificación 1:1, segundo factor en identificación.
+  const [claimedEmail, setClaimedEmail] = useState('');
+  const { loginWithFace, verifyWithFace, rememberedAccounts, loading: authLoading } = useAuth();
+  const [settings] = useAppSettings();
   const router = useRouter();
   const { toast } = useToast();
 
-  const handleFaceCaptured = (dataUrl: string, descriptor: number[] | null) => {
+  // Mientras carga la configuración (o si el servidor no responde) se ofrecen ambos modos; el
+  // servidor rechaza igualmente el modo que la política no permita.
+  const policy: LoginPolicy = settings?.login.policy ?? 'both';
+  const mode: LoginMode = policy === 'both' ? selectedMode : policy;
+  const asksForEmail = mode === 'verification' || needsSecondFactor;
+  // Igual que con la política: si la configuración aún no está disponible se pide el parpadeo.
+  const livenessCheck = settings?.liveness.requireBlink === false ? 'none' : 'blink';
+  const challengeCount = settings?.liveness.challengeCount ?? 0;
+  // Con evidencia de un solo uso, cada intento necesita una captura nueva.
+  const singleUseLiveness = challengeCount > 0 || livenessCheck === 'blink';
+
+  // El nonce de cada secuencia vale para un único intento: se pide otra tras cada intento fallido
+  // o cuando vence el plazo de un reto.
+  const issueChallenge = useCallback(async () => {
+    setLivenessChallenge(null);
+    setChallengeResponse(undefined);
+    try {
+      setLivenessChallenge(await requestLivenessChallenge());
+    } catch (error) {
+      console.error("Error al obtener los retos de prueba de vida:", error);
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor. Recarga la página.';
+      toast({ title: "Retos No Disponibles", description, variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (challengeCount > 0) issueChallenge();
+  }, [challengeCount, issueChallenge]);
+
+  const issueBlinkNonce = useCallback(async () => {
+    setBlinkNonce(null);
+    try {
+      setBlinkNonce(await requestBlinkNonce());
+    } catch (error) {
+      console.error("Error al obtener el nonce de la prueba de parpadeo:", error);
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor. Recarga la página.';
+      toast({ title: "Prueba de Vida No Disponible", description, variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (livenessCheck === 'blink') issueBlinkNonce();
+  }, [livenessCheck, issueBlinkNonce]);
+
+  // Se renueva al caducar para que un formulario abierto un rato no falle en el primer intento.
+  useEffect(() => {
+    if (!blinkNonce) return;
+    const timer = setTimeout(issueBlinkNonce, Math.max(0, Date.parse(blinkNonce.expiresAt) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [blinkNonce, issueBlinkNonce]);
+
+  const renewLivenessEvidence = () => {
+    if (challengeCount > 0) issueChallenge();
+    if (livenessCheck === 'blink') issueBlinkNonce();
+  };
+
+  const handleFaceCaptured = (dataUrl: string, descriptor: number[] | null, details: FaceCaptureDetails | null) => {
     setCapturedFaceUri(dataUrl);
     setCapturedFaceDescriptor(descriptor);
+    setLiveness(details?.liveness);
+    setChallengeResponse(details?.challengeResponse);
+    setSpoofFrames(details?.spoofFrames);
+    // Con evidencia de un solo uso, tras un resultado ambiguo se vuelve a capturar y se mantiene el segundo factor.
+    if (!singleUseLiveness) setNeedsSecondFactor(false);
     if (!descriptor) {
         toast({title: "Problema al Procesar Rostro", description: "No se pudieron calcular los rasgos faciales de la imagen capturada. Intenta de nuevo con una vista más clara de tu rostro.", variant: "default", duration: 7000});
     }
   };
 
+  const handleModeChange = (value: string) => {
+    setSelectedMode(value as LoginMode);
+    setNeedsSecondFactor(false);
+  };
+
+  const resetCapture = () => {
+    setCapturedFaceUri(null); 
+    setCapturedFaceDescriptor(null);
+    setLiveness(undefined);
+    setNeedsSecondFactor(false);
+    renewLivenessEvidence();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!authLoading && users.length === 0) {
-      toast({ title: "Inicio de Sesión No Posible", description: "No hay usuarios registrados en el sistema. Por favor, regístrate primero.", variant: "destructive" });
-      return;
-    }
     if (!capturedFaceUri) {
       toast({ title: "Se Requiere Captura de Rostro", description: "Por favor, captura tu rostro para iniciar sesión.", variant: "destructive" });
       return;
@@ -42,20 +132,48 @@ export default function LoginForm() {
       toast({ title: "Se Requieren Rasgos Faciales", description: "Los rasgos faciales no pudieron ser procesados. Por favor, captura tu rostro de nuevo con claridad.", variant: "destructive" });
       return;
     }
+    if (asksForEmail && !claimedEmail.trim()) {
+      toast({ title: "Se Requiere Correo Electrónico", description: "Introduce el correo de tu cuenta para confirmar tu identidad.", variant: "destructive" });
+      return;
+    }
 
     setIsLoggingIn(true);
     try {
-      const success = await loginWithFace(capturedFaceUri, capturedFaceDescriptor);
-      if (success) {
+      if (mode === 'verification') {
+        const result = await verifyWithFace(claimedEmail.trim(), capturedFaceUri, capturedFaceDescriptor, { liveness, challengeResponse, spoofFrames });
+        if (result?.decision === 'match') {
+          toast({ title: "Inicio de Sesión Exitoso", description: "¡Bienvenido de nuevo!" });
+          router.push('/dashboard');
+        } else {
+          resetCapture();
+        }
+        return;
+      }
+
+      const result = await loginWithFace(capturedFaceUri, capturedFaceDescriptor, {
+        claimedEmail: needsSecondFactor ? claimedEmail.trim() : undefined,
+        liveness,
+        challengeResponse,
+        spoofFrames,
+      });
+      if (result?.decision === 'match') {
         toast({ title: "Inicio de Sesión Exitoso", description: "¡Bienvenido de nuevo!" });
         router.push('/dashboard');
+      } else if (result?.decision === 'ambiguous') {
+        setNeedsSecondFactor(true);
+        if (singleUseLiveness) {
+          // Los nonces ya se consumieron: el segundo intento necesita una captura nueva.
+          setCapturedFaceUri(null);
+          setCapturedFaceDescriptor(null);
+          renewLivenessEvidence();
+        }
       } else {
         // Specific failure toasts are handled within loginWithFace
-        setCapturedFaceUri(null); 
-        setCapturedFaceDescriptor(null);
+        resetCapture();
       }
     } catch (error) {
       console.error("Login error:", error);
+      renewLivenessEvidence();
       toast({ title: "Error de Inicio de Sesión", description: "Ocurrió un error inesperado. Por favor, inténtalo de nuevo.", variant: "destructive" });
     } finally {
       setIsLoggingIn(false);
@@ -66,27 +184,88 @@ export default function LoginForm() {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {policy === 'both' && (
+        <Tabs value={mode} onValueChange={handleModeChange}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="identification">Solo Rostro</TabsTrigger>
+            <TabsTrigger value="verification">Cuenta y Rostro</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
+      {mode === 'verification' && (
+        <div className="space-y-2">
+          <Label htmlFor="claimedEmail">Correo Electrónico de tu Cuenta</Label>
+          {rememberedAccounts.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {rememberedAccounts.map(account => (
+                <Button
+                  key={account.id}
+                  type="button"
+                  size="sm"
+                  variant={claimedEmail === account.email ? 'default' : 'outline'}
+                  onClick={() => setClaimedEmail(account.email)}
+                >
+                  {account.name}
+                </Button>
+              ))}
+            </div>
+          )}
+          <Input
+            id="claimedEmail"
+            type="email"
+            placeholder="tu@ejemplo.com"
+            value={claimedEmail}
+            onChange={(e) => setClaimedEmail(e.target.value)}
+          />
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label className="font-medium text-foreground text-center block">Inicia Sesión con Tu Rostro</Label>
         <p className="text-sm text-muted-foreground text-center">
-          Tu rostro se comparará con los usuarios registrados.
+          {mode === 'verification'
+            ? 'Tu rostro se comparará solo con la cuenta indicada.'
+            : 'Tu rostro se comparará con los usuarios registrados.'}
         </p>
-        <FaceCapture onFaceCaptured={handleFaceCaptured} captureButtonText="Capturar Rostro para Iniciar Sesión" />
+        <FaceCapture
+          onFaceCaptured={handleFaceCaptured}
+          captureButtonText="Capturar Rostro para Iniciar Sesión"
+          livenessCheck={livenessCheck}
+          blinkNonce={blinkNonce?.nonce ?? null}
+          livenessChallenge={challengeCount > 0 ? livenessChallenge : undefined}
+          onChallengeFailed={issueChallenge}
+          detectPresentationAttack={settings?.liveness.spoofDetection !== false}
+        />
         {capturedFaceUri && capturedFaceDescriptor && <p className="text-xs text-green-600 text-center flex items-center justify-center gap-1"><UserCheck size={14}/> ¡Rostro y rasgos capturados!</p>}
         {capturedFaceUri && !capturedFaceDescriptor && <p className="text-xs text-amber-600 text-center">Rostro capturado, pero rasgos no claros. Intenta de nuevo.</p>}
-        
-        {!authLoading && users.length === 0 && !isLoggingIn && (
-           <p className="text-xs text-amber-600 text-center pt-2">No hay usuarios registrados. Por favor, regístrate.</p>
+
+        {mode === 'identification' && needsSecondFactor && (
+          <div className="space-y-2 pt-2">
+            <Label htmlFor="claimedEmail">Confirma tu Correo Electrónico</Label>
+            <Input
+              id="claimedEmail"
+              type="email"
+              placeholder="tu@ejemplo.com"
+              value={claimedEmail}
+              onChange={(e) => setClaimedEmail(e.target.value)}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              Tu rostro coincide con más de un usuario. Indica el correo de tu cuenta para continuar{singleUseLiveness ? ' y vuelve a capturar tu rostro' : ''}.
+            </p>
+          </div>
         )}
+
       </div>
 
-      <Button type="submit" disabled={isLoggingIn || !canAttemptLogin || (users.length === 0 && !authLoading)} className="w-full">
+      <Button type="submit" disabled={isLoggingIn || !canAttemptLogin} className="w-full">
         {isLoggingIn ? (
           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
         ) : (
           <LogIn className="mr-2 h-4 w-4" />
         )}
-        {isLoggingIn ? 'Verificando...' : 'Iniciar Sesión con Rostro'}
+        {isLoggingIn ? 'Verificando...' : needsSecondFactor ? 'Confirmar e Iniciar Sesión' : 'Iniciar Sesión con Rostro'}
       </Button>
       <p className="text-center text-sm text-muted-foreground">
         ¿No tienes una cuenta?{' '}
@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import type { CapturedFrame, FaceCaptureDetails } from '@/types';
 import Link from 'next/link';
 import { Loader2, UserPlus } from 'lucide-react';
 
@@ -17,14 +18,16 @@ export default function SignupForm() {
   const [email, setEmail] = useState('');
   const [capturedFaceUri, setCapturedFaceUri] = useState<string | null>(null);
   const [faceDescriptor, setFaceDescriptor] = useState<number[] | null>(null);
+  const [burstFrames, setBurstFrames] = useState<CapturedFrame[] | undefined>(undefined);
   const [isSigningUp, setIsSigningUp] = useState(false);
   const { signup } = useAuth();
   const router = useRouter();
   const { toast } = useToast();
 
-  const handleFaceCaptured = (dataUrl: string, descriptor: number[] | null) => {
+  const handleFaceCaptured = (dataUrl: string, descriptor: number[] | null, details: FaceCaptureDetails | null) => {
     setCapturedFaceUri(dataUrl);
     setFaceDescriptor(descriptor);
+    setBurstFrames(details?.burstFrames);
     if (descriptor) {
       toast({ title: "Rostro Capturado", description: "Tu imagen facial y descriptor han sido procesados." });
     } else {
@@ -49,7 +52,7 @@ export default function SignupForm() {
 
     setIsSigningUp(true);
     try {
-      const success = await signup(name, email, capturedFaceUri, faceDescriptor);
+      const success = await signup(name, email, capturedFaceUri, faceDescriptor, burstFrames);
 
       if (success) {
         toast({ title: "Registro Exitoso", description: "Tu cuenta ha sido creada. ¡Bienvenido!" });
@@ -97,7 +100,7 @@ export default function SignupForm() {
         <p className="text-sm text-muted-foreground">
           Esta imagen se usará para iniciar sesión. Asegura buena iluminación y una vista clara de tu rostro.
         </p>
-        <FaceCapture onFaceCaptured={handleFaceCaptured} captureButtonText="Capturar Rostro y Obtener Descriptor" />
+        <FaceCapture onFaceCaptured={handleFaceCaptured} captureMode="burst" captureButtonText="Capturar Rostro y Obtener Descriptor" />
         {capturedFaceUri && faceDescriptor && <p className="text-xs text-green-600 text-center">¡Rostro y descriptor capturados exitosamente!</p>}
         {capturedFaceUri && !faceDescriptor && <p className="text-xs text-amber-600 text-center">Rostro capturado, pero el descriptor falló. Intenta de nuevo.</p>}
       </div>
@@ -6,7 +6,7 @@ import { useRouter } from 'next/navigation';
 import { AppLogo } from '@/components/common/app-logo';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/auth-context';
-import { Home, UserCircle, Users, LogOut, ShieldCheck } from 'lucide-react';
+import { Home, UserCircle, Users, LogOut, ShieldCheck, Settings } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -54,6 +54,13 @@ export default function AppHeader() {
                   </Link>
                 </Button>
               )}
+              {user.isAdmin && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/admin/settings">
+                    <Settings className="mr-2 h-4 w-4" /> Configuración
+                  </Link>
+                </Button>
+              )}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" className="relative h-9 w-9 rounded-full">
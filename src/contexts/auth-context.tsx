@@ -1,62 +1,103 @@
 
 "use client";
 
-import type { User } from '@/types';
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { CapturedFrame, FaceIdentificationResult, FaceVerificationResult, PublicUser, UserProfile, SignupOutcome } from '@/types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import useLocalStorage from '@/hooks/use-local-storage';
+import useIndexedDbUsers from '@/hooks/use-indexed-db-users';
+import { toFaceSamplePayload, fetchSessionUser, endSession, fetchUsers, createUser, updateUserFace, addFaceSample, removeFaceSample, identifyFace, verifyFace, resetUserDatabase } from '@/lib/user-api';
+import type { LivenessPayload } from '@/lib/user-api';
+import { ApiError } from '@/lib/api-client';
 import { enhanceFaceImage, EnhanceFaceImageInput } from '@/ai/flows/enhance-face-image';
 import { useToast } from '@/hooks/use-toast';
-import * as faceapi from 'face-api.js';
 
-// Type for the minimal data stored in localStorage for the current user
-type StoredCurrentUser = { id: string } | null;
+// Datos opcionales de un intento de inicio de sesión además de la captura.
+interface LoginAttemptOptions extends LivenessPayload {
+  claimedEmail?: string; // Segundo factor tras un resultado ambiguo (solo identificación)
+}
+
+// Cuentas que iniciaron sesión en este navegador, para elegirlas en el modo de verificación 1:1.
+const MAX_REMEMBERED_ACCOUNTS = 5;
+
+type RememberedAccount = Pick<PublicUser, 'id' | 'name' | 'email'>;
 
 interface AuthContextType {
-  user: User | null;
-  users: User[];
+  user: UserProfile | null;
+  users: UserProfile[]; // Solo para administradores; los descriptores faciales nunca llegan al navegador
+  rememberedAccounts: RememberedAccount[];
   loading: boolean;
-  loginWithFace: (capturedFaceUri: string, capturedFaceDescriptor: number[] | null) => Promise<boolean>;
-  signup: (name: string, email: string, faceImageUri: string, faceDescriptor: number[] | null) => Promise<boolean>;
+  refreshUsers: () => Promise<UserProfile[] | null>;
+  // Devuelve null si la petición no llegó a resolverse; los avisos de error ya se muestran aquí.
+  loginWithFace: (capturedFaceUri: string, capturedFaceDescriptor: number[] | null, options?: LoginAttemptOptions) => Promise<FaceIdentificationResult | null>;
+  verifyWithFace: (email: string, capturedFaceUri: string, capturedFaceDescriptor: number[] | null, options?: Omit<LoginAttemptOptions, 'claimedEmail'>) => Promise<FaceVerificationResult | null>;
+  // `burstFrames` son los fotogramas válidos de una captura en ráfaga; el servidor promedia sus descriptores.
+  signup: (name: string, email: string, faceImageUri: string, faceDescriptor: number[] | null, burstFrames?: CapturedFrame[]) => Promise<boolean>;
   logout: () => void;
-  updateUserFaceAdmin: (userId: string, newFaceImageUri: string, newFaceDescriptor: number[] | null) => Promise<boolean>;
+  updateUserFaceAdmin: (userId: string, newFaceImageUri: string, newFaceDescriptor: number[] | null, burstFrames?: CapturedFrame[]) => Promise<boolean>;
+  addFaceSampleAdmin: (userId: string, faceImageUri: string, faceDescriptor: number[] | null, burstFrames?: CapturedFrame[]) => Promise<boolean>;
+  removeFaceSampleAdmin: (userId: string, sampleId: string) => Promise<boolean>;
   enhanceAndSetFace: (photoDataUri: string) => Promise<string | null>;
+  resetDatabase: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const FACE_MATCH_THRESHOLD = 0.55; 
-
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [allUsers, setAllUsers] = useLocalStorage<User[]>('users', []);
-  const [storedCurrentUser, setStoredCurrentUser] = useLocalStorage<StoredCurrentUser>('currentUser', null);
+  const [allUsers, setAllUsers] = useState<UserProfile[]>([]);
+  const [cachedUsers, setCachedUsers, cacheReady] = useIndexedDbUsers();
+  const serverSyncedRef = useRef(false);
+  // Versiones anteriores guardaban solo los ids; sin la lista de usuarios ya no pueden mostrarse.
+  const [storedAccounts, setRememberedAccounts] = useLocalStorage<RememberedAccount[]>('rememberedAccounts', []);
   
-  const [activeUser, setActiveUser] = useState<User | null>(null);
+  const [activeUser, setActiveUser] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
+  // Los usuarios viven en el servidor (`/api/users`) y solo un administrador puede listarlos; el
+  // navegador guarda una copia en IndexedDB para mostrarlos al instante aunque el servidor tarde.
+  const refreshUsers = useCallback(async (): Promise<UserProfile[] | null> => {
+    try {
+      const users = await fetchUsers();
+      serverSyncedRef.current = true;
+      setAllUsers(users);
+      setCachedUsers(users);
+      return users;
+    } catch (error) {
+      console.error("Error al obtener los usuarios del servidor:", error);
+      return null;
+    }
+  }, [setCachedUsers]);
+
+  // El usuario actual es el de la sesión del servidor (cookie httpOnly), no algo guardado en el navegador.
   useEffect(() => {
-    // Este efecto se ejecuta una vez al montar el componente para borrar los usuarios existentes.
-    // Esto es para cumplir con la solicitud de "borra los usuarios actuales".
-    // Esto restablecerá los datos de usuario almacenados en localStorage.
-    console.log("Borrando datos de usuario existentes de localStorage según lo solicitado.");
-    setAllUsers([]);
-    setStoredCurrentUser(null);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Se ejecuta solo una vez al montar
+    (async () => {
+      try {
+        setActiveUser(await fetchSessionUser());
+      } catch (error) {
+        console.error("Error al consultar la sesión en el servidor:", error);
+        setActiveUser(null);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
 
+  const adminId = activeUser?.isAdmin ? activeUser.id : null;
 
   useEffect(() => {
-    setLoading(true);
-    if (storedCurrentUser && allUsers.length > 0) {
-      const fullUser = allUsers.find(u => u.id === storedCurrentUser.id);
-      setActiveUser(fullUser || null);
+    serverSyncedRef.current = false;
+    if (adminId) {
+      refreshUsers();
     } else {
-      // Si no hay storedCurrentUser o allUsers está vacío (quizás debido al efecto de limpieza de arriba),
-      // asegurarse de que activeUser sea null.
-      setActiveUser(null);
+      setAllUsers([]);
     }
-    setLoading(false);
-  }, [storedCurrentUser, allUsers]);
+  }, [adminId, refreshUsers]);
+
+  useEffect(() => {
+    if (adminId && cacheReady && !serverSyncedRef.current) {
+      setAllUsers(cachedUsers);
+    }
+  }, [adminId, cacheReady, cachedUsers]);
 
   const enhanceAndSetFace = async (photoDataUri: string): Promise<string | null> => {
     try {
@@ -70,155 +111,251 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const loginWithFace = async (capturedFaceUri: string, capturedFaceDescriptor: number[] | null): Promise<boolean> => {
-    setLoading(true);
-
-    if (allUsers.length === 0) {
-      toast({ title: "Inicio de Sesión Fallido", description: "No hay usuarios registrados. Por favor, regístrate.", variant: "destructive" });
-      setLoading(false);
-      return false;
-    }
+  const rememberAccount = ({ id, name, email }: RememberedAccount) => {
+    setRememberedAccounts(accounts => [{ id, name, email }, ...accounts.filter(account => account.id !== id)].slice(0, MAX_REMEMBERED_ACCOUNTS));
+  };
 
+  // Comprobaciones comunes a ambos modos de inicio de sesión antes de enviar la captura al servidor.
+  const prepareLoginCapture = async (capturedFaceUri: string, capturedFaceDescriptor: number[] | null): Promise<number[] | null> => {
     if (!capturedFaceDescriptor) {
       toast({ title: "Inicio de Sesión Fallido", description: "No se pudieron procesar los rasgos faciales para el inicio de sesión. Intenta capturar tu rostro de nuevo.", variant: "destructive" });
-      setLoading(false);
-      return false;
+      return null;
     }
     
     const enhancedLoginFaceUri = await enhanceAndSetFace(capturedFaceUri);
     if (!enhancedLoginFaceUri) {
       toast({ title: "Inicio de Sesión Fallido", description: "No se pudo procesar el rostro capturado para el reconocimiento. Asegúrate de que tu rostro esté claro y bien iluminado.", variant: "destructive" });
-      setLoading(false);
+      return null;
+    }
+    return capturedFaceDescriptor;
+  };
+
+  // El servidor ya inició la sesión al aceptar el rostro; se lee de vuelta para no depender de la
+  // respuesta del intento.
+  const completeLogin = async (matchedUserId: string): Promise<boolean> => {
+    let matchedUser: UserProfile | null = null;
+    try {
+      matchedUser = await fetchSessionUser();
+    } catch (error) {
+      console.error("Error al consultar la sesión en el servidor:", error);
+    }
+    if (!matchedUser || matchedUser.id !== matchedUserId) {
+      toast({ title: "Error de Inicio de Sesión", description: "No se pudo iniciar la sesión del usuario reconocido. Inténtalo de nuevo.", variant: "destructive" });
       return false;
     }
 
-    const labeledFaceDescriptors = allUsers
-      .filter(user => user.faceDescriptor && user.faceDescriptor.length > 0)
-      .map(user => new faceapi.LabeledFaceDescriptors(
-        user.id, 
-        [new Float32Array(user.faceDescriptor!)]
-      ));
+    rememberAccount(matchedUser);
+    setActiveUser(matchedUser);
+    return true;
+  };
 
-    if (labeledFaceDescriptors.length === 0) {
-        toast({ title: "Inicio de Sesión Fallido", description: "Ningún usuario registrado tiene descriptores faciales para comparación. Vuelve a registrarte o contacta al administrador.", variant: "destructive" });
-        setLoading(false);
-        return false;
+  const loginWithFace = async (capturedFaceUri: string, capturedFaceDescriptor: number[] | null, options: LoginAttemptOptions = {}): Promise<FaceIdentificationResult | null> => {
+    setLoading(true);
+    const faceDescriptor = await prepareLoginCapture(capturedFaceUri, capturedFaceDescriptor);
+    if (!faceDescriptor) {
+      setLoading(false);
+      return null;
     }
 
-    const faceMatcher = new faceapi.FaceMatcher(labeledFaceDescriptors, FACE_MATCH_THRESHOLD);
-    const bestMatch = faceMatcher.findBestMatch(new Float32Array(capturedFaceDescriptor));
+    // La comparación 1:N se hace en el servidor, que devuelve solo la decisión y su motivo.
+    let result: FaceIdentificationResult;
+    try {
+      result = await identifyFace({ faceImageUri: capturedFaceUri, faceDescriptor, claimedEmail: options.claimedEmail, liveness: options.liveness, challengeResponse: options.challengeResponse, spoofFrames: options.spoofFrames });
+    } catch (error) {
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor de usuarios. Inténtalo de nuevo.';
+      toast({ title: "Inicio de Sesión Fallido", description, variant: "destructive" });
+      setLoading(false);
+      return null;
+    }
 
-    if (bestMatch && bestMatch.label !== 'unknown') {
-      const matchedUser = allUsers.find(u => u.id === bestMatch.label);
-      if (matchedUser) {
-        const userToStore: StoredCurrentUser = { id: matchedUser.id };
-        setStoredCurrentUser(userToStore);
-        setActiveUser(matchedUser); 
-        setLoading(false);
-        return true;
-      } else {
-         toast({ title: "Error de Inicio de Sesión", description: "Usuario coincidente no encontrado en el sistema.", variant: "destructive" });
-      }
-    } else {
-      toast({ title: "Inicio de Sesión Fallido", description: "Rostro no reconocido. Asegúrate de ser un usuario registrado e inténtalo de nuevo.", variant: "destructive" });
+    if (result.decision === 'ambiguous') {
+      toast({ title: "Se Requiere Verificación Adicional", description: "Tu rostro se parece a más de un usuario registrado. Confirma tu correo electrónico para continuar." });
+      setLoading(false);
+      return result;
+    }
+    if (result.decision === 'no_match') {
+      const description = result.reason === 'second_factor_mismatch'
+        ? "El correo indicado no corresponde al rostro capturado."
+        : "Rostro no reconocido. Asegúrate de ser un usuario registrado e inténtalo de nuevo.";
+      toast({ title: "Inicio de Sesión Fallido", description, variant: "destructive" });
+      setLoading(false);
+      return result;
     }
 
+    const success = await completeLogin(result.userId!);
     setLoading(false);
-    return false;
+    return success ? result : null;
   };
 
-  const signup = async (name: string, email: string, faceImageUri: string, faceDescriptor: number[] | null): Promise<boolean> => {
+  const verifyWithFace = async (email: string, capturedFaceUri: string, capturedFaceDescriptor: number[] | null, options: Omit<LoginAttemptOptions, 'claimedEmail'> = {}): Promise<FaceVerificationResult | null> => {
     setLoading(true);
-    // Validar si el usuario ya existe con el mismo email en la lista `allUsers` actual
-    // que se obtiene de useLocalStorage y es la fuente de verdad.
-    if (allUsers.find(u => u.email === email)) {
+    const faceDescriptor = await prepareLoginCapture(capturedFaceUri, capturedFaceDescriptor);
+    if (!faceDescriptor) {
       setLoading(false);
-      toast({title: "Registro Fallido", description: "Ya existe un usuario con este correo electrónico.", variant: "destructive"});
-      return false;
+      return null;
+    }
+
+    let result: FaceVerificationResult;
+    try {
+      result = await verifyFace({ faceImageUri: capturedFaceUri, faceDescriptor, email, liveness: options.liveness, challengeResponse: options.challengeResponse, spoofFrames: options.spoofFrames });
+    } catch (error) {
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor de usuarios. Inténtalo de nuevo.';
+      toast({ title: "Inicio de Sesión Fallido", description, variant: "destructive" });
+      setLoading(false);
+      return null;
+    }
+
+    if (result.decision === 'no_match') {
+      toast({ title: "Inicio de Sesión Fallido", description: "El correo o el rostro capturado no coinciden con ninguna cuenta.", variant: "destructive" });
+      setLoading(false);
+      return result;
     }
 
+    const success = await completeLogin(result.userId!);
+    setLoading(false);
+    return success ? result : null;
+  };
+
+  const signup = async (name: string, email: string, faceImageUri: string, faceDescriptor: number[] | null, burstFrames?: CapturedFrame[]): Promise<boolean> => {
+    setLoading(true);
     if (!faceDescriptor) {
         setLoading(false);
         toast({title: "Registro Fallido", description: 'No se pudo calcular el descriptor facial. Intenta capturar tu rostro de nuevo.', variant: "destructive"});
         return false;
     }
 
-    const enhancedFaceImageUri = await enhanceAndSetFace(faceImageUri);
-    if (!enhancedFaceImageUri) {
+    // El servidor valida el correo y el rostro duplicados, mejora la imagen y decide si el usuario es admin.
+    let outcome: SignupOutcome;
+    try {
+      outcome = await createUser({ name, email, ...toFaceSamplePayload(faceImageUri, faceDescriptor, burstFrames) });
+    } catch (error) {
       setLoading(false);
-      toast({title: "Registro Fallido", description: 'Falló la mejora de la imagen facial. Intenta de nuevo con una imagen más clara.', variant: "destructive"});
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor de usuarios. Inténtalo de nuevo.';
+      toast({title: "Registro Fallido", description, variant: "destructive"});
       return false;
     }
-    
-    // Determinar si este es el primer usuario para hacerlo admin
-    const isAdmin = allUsers.length === 0;
-
-    const newUser: User = {
-      id: Date.now().toString(),
-      name,
-      email,
-      faceImageUri,
-      enhancedFaceImageUri,
-      faceDescriptor,
-      isAdmin: isAdmin, 
-    };
-    setAllUsers([...allUsers, newUser]);
-    
-    const userToStore: StoredCurrentUser = { id: newUser.id };
-    setStoredCurrentUser(userToStore);
-    setActiveUser(newUser);
+    if (outcome.status === 'pending_review') {
+      setLoading(false);
+      toast({title: "Registro Pendiente de Revisión", description: "Tu rostro coincide con una cuenta existente. Un administrador revisará tu registro antes de activarlo.", duration: 9000});
+      return false;
+    }
+    // El servidor inició la sesión de la cuenta recién creada; se lee su perfil completo.
+    let newUser: UserProfile | null = null;
+    try {
+      newUser = await fetchSessionUser();
+    } catch (error) {
+      console.error("Error al consultar la sesión en el servidor:", error);
+    }
     setLoading(false);
+    if (!newUser) {
+      toast({title: "Registro Completado", description: "Tu cuenta se creó, pero no se pudo iniciar la sesión. Inicia sesión con tu rostro."});
+      return false;
+    }
+    rememberAccount(newUser);
+    setActiveUser(newUser);
     return true;
   };
 
+  const rememberedAccounts = storedAccounts.filter(account => typeof account === 'object' && account !== null);
+
+  // La copia local de la lista de usuarios incluye imágenes faciales: no se deja en un equipo compartido.
   const logout = () => {
-    setStoredCurrentUser(null);
     setActiveUser(null);
+    setCachedUsers([]);
+    endSession().catch(error => console.error("Error al cerrar la sesión en el servidor:", error));
   };
   
-  const updateUserFaceAdmin = async (userId: string, newFaceImageUri: string, newFaceDescriptor: number[] | null): Promise<boolean> => {
-    setLoading(true);
-    const userIndex = allUsers.findIndex(u => u.id === userId);
-    if (userIndex === -1) {
-      setLoading(false);
-      toast({title: "Actualización Fallida", description: "Usuario no encontrado.", variant: "destructive"});
-      return false;
+  const replaceUser = (updatedUser: UserProfile) => {
+    const updatedUsers = allUsers.map(u => (u.id === updatedUser.id ? updatedUser : u));
+    setAllUsers(updatedUsers);
+    setCachedUsers(updatedUsers);
+    if (activeUser?.id === updatedUser.id) {
+      setActiveUser(updatedUser);
     }
+  };
 
+  const updateUserFaceAdmin = async (userId: string, newFaceImageUri: string, newFaceDescriptor: number[] | null, burstFrames?: CapturedFrame[]): Promise<boolean> => {
+    if (!activeUser) return false;
+    setLoading(true);
     if (!newFaceDescriptor) {
         setLoading(false);
         toast({title: "Actualización Fallida", description: 'No se pudo calcular el nuevo descriptor facial. Intenta capturar de nuevo.', variant: "destructive"});
         return false;
     }
 
-    const enhancedUri = await enhanceAndSetFace(newFaceImageUri);
-    if (!enhancedUri) {
+    let updatedUserFull: UserProfile;
+    try {
+      updatedUserFull = await updateUserFace(userId, toFaceSamplePayload(newFaceImageUri, newFaceDescriptor, burstFrames));
+    } catch (error) {
       setLoading(false);
-      toast({title: "Actualización Fallida", description: 'Falló la mejora de la nueva imagen facial. Asegúrate de que la imagen sea clara.', variant: "destructive"});
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor de usuarios. Inténtalo de nuevo.';
+      toast({title: "Actualización Fallida", description, variant: "destructive"});
       return false;
     }
 
-    const updatedUsersArray = [...allUsers];
-    const updatedUserFull = {
-      ...updatedUsersArray[userIndex],
-      faceImageUri: newFaceImageUri, 
-      enhancedFaceImageUri: enhancedUri, 
-      faceDescriptor: newFaceDescriptor,
-    };
-    updatedUsersArray[userIndex] = updatedUserFull;
-    setAllUsers(updatedUsersArray);
-    
-    if (activeUser?.id === userId) {
-      setActiveUser(updatedUserFull);
+    replaceUser(updatedUserFull);
+    setLoading(false);
+    return true;
+  };
+
+  // Las operaciones sobre muestras individuales no activan `loading` global para no desmontar
+  // el diálogo de administración mientras se edita la galería.
+  const addFaceSampleAdmin = async (userId: string, faceImageUri: string, faceDescriptor: number[] | null, burstFrames?: CapturedFrame[]): Promise<boolean> => {
+    if (!activeUser) return false;
+    if (!faceDescriptor) {
+      toast({title: "Muestra No Añadida", description: 'No se pudo calcular el descriptor facial. Intenta capturar de nuevo.', variant: "destructive"});
+      return false;
+    }
+    try {
+      replaceUser(await addFaceSample(userId, toFaceSamplePayload(faceImageUri, faceDescriptor, burstFrames)));
+      return true;
+    } catch (error) {
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor de usuarios. Inténtalo de nuevo.';
+      toast({title: "Muestra No Añadida", description, variant: "destructive"});
+      return false;
+    }
+  };
+
+  const removeFaceSampleAdmin = async (userId: string, sampleId: string): Promise<boolean> => {
+    if (!activeUser) return false;
+    try {
+      replaceUser(await removeFaceSample(userId, sampleId));
+      return true;
+    } catch (error) {
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor de usuarios. Inténtalo de nuevo.';
+      toast({title: "Muestra No Eliminada", description, variant: "destructive"});
+      return false;
     }
+  };
 
+  // Borra todos los usuarios (servidor y caché local). Es la única ruta que elimina enrolamientos
+  // y solo está disponible para administradores.
+  const resetDatabase = async (): Promise<boolean> => {
+    if (!activeUser?.isAdmin) {
+      toast({title: "Acción No Permitida", description: "Solo un administrador puede restablecer la base de datos.", variant: "destructive"});
+      return false;
+    }
+    setLoading(true);
+    try {
+      await resetUserDatabase();
+    } catch (error) {
+      setLoading(false);
+      const description = error instanceof ApiError ? error.message : 'No se pudo contactar al servidor de usuarios. Inténtalo de nuevo.';
+      toast({title: "Restablecimiento Fallido", description, variant: "destructive"});
+      return false;
+    }
+    setAllUsers([]);
+    await setCachedUsers([]);
+    // La cuenta de la sesión ya no existe; se borra también la cookie.
+    endSession().catch(error => console.error("Error al cerrar la sesión en el servidor:", error));
+    setRememberedAccounts([]);
+    setActiveUser(null);
     setLoading(false);
     return true;
   };
 
-
   return (
-    <AuthContext.Provider value={{ user: activeUser, users: allUsers, loading, loginWithFace, signup, logout, updateUserFaceAdmin, enhanceAndSetFace }}>
+    <AuthContext.Provider value={{ user: activeUser, users: allUsers, rememberedAccounts, loading, refreshUsers, loginWithFace, verifyWithFace, signup, logout, updateUserFaceAdmin, addFaceSampleAdmin, removeFaceSampleAdmin, enhanceAndSetFace, resetDatabase }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { AppSettings } from '@/types';
+import { fetchSettings } from '@/lib/settings-api';
+
+// Configuración pública de la instalación. `settings` es null mientras carga o si el servidor no
+// responde; `loaded` indica que la petición terminó, para que quien la use pueda aplicar sus
+// valores por defecto en lugar de esperar indefinidamente.
+function useAppSettings(): [AppSettings | null, boolean] {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSettings()
+      .then(result => {
+        if (!cancelled) setSettings(result);
+      })
+      .catch(error => console.error("Error al obtener la configuración:", error))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return [settings, loaded];
+}
+
+export default useAppSettings;
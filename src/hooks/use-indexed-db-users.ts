@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ProfileFaceSample, UserProfile } from '@/types';
+import { migrateUser } from '@/lib/user-schema';
+import { toUserProfile } from '@/lib/public-user';
+import { createUser } from '@/lib/user-api';
+import { ApiError } from '@/lib/api-client';
+
+const DB_NAME = 'facesip';
+const DB_VERSION = 1;
+const USERS_STORE = 'users';
+const LEGACY_LOCAL_STORAGE_KEY = 'users';
+
+// Forma en la que se guarda cada usuario en IndexedDB: las imágenes como Blob binario en lugar de
+// data URIs en base64. Solo se guarda el perfil público; los descriptores se quedan en el servidor.
+// Cachés anteriores sí guardaban descriptores (Float32Array); se descartan al leerlos.
+interface StoredFaceSampleRecord extends Omit<ProfileFaceSample, 'imageUri'> {
+  descriptor?: Float32Array;
+  image: Blob | null;
+}
+
+interface StoredUserRecord extends Omit<UserProfile, 'faceImageUri' | 'enhancedFaceImageUri' | 'faceSamples'> {
+  faceImage: Blob | null;
+  enhancedFaceImage: Blob | null;
+  faceSamples?: StoredFaceSampleRecord[];
+  faceDescriptor?: Float32Array; // Registros anteriores al esquema 2
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(USERS_STORE)) {
+          db.createObjectStore(USERS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function dataUriToBlob(dataUri: string | undefined): Promise<Blob | null> {
+  if (!dataUri) return null;
+  const response = await fetch(dataUri);
+  return response.blob();
+}
+
+function blobToDataUri(blob: Blob | null): Promise<string> {
+  if (!blob) return Promise.resolve('');
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function toRecord(user: UserProfile): Promise<StoredUserRecord> {
+  const { faceImageUri, enhancedFaceImageUri, faceSamples, ...profile } = toUserProfile(user);
+  return {
+    ...profile,
+    faceImage: await dataUriToBlob(faceImageUri),
+    enhancedFaceImage: await dataUriToBlob(enhancedFaceImageUri),
+    faceSamples: await Promise.all(faceSamples.map(async ({ imageUri, ...sample }) => ({
+      ...sample,
+      image: await dataUriToBlob(imageUri),
+    }))),
+  };
+}
+
+// Los registros guardados por versiones anteriores pasan por las migraciones de esquema al leerse.
+async function fromRecord(record: StoredUserRecord): Promise<UserProfile> {
+  const { faceImage, enhancedFaceImage, faceSamples, faceDescriptor, ...profile } = record;
+  return toUserProfile(migrateUser({
+    ...profile,
+    faceImageUri: await blobToDataUri(faceImage),
+    enhancedFaceImageUri: await blobToDataUri(enhancedFaceImage),
+    faceSamples: faceSamples && await Promise.all(faceSamples.map(async ({ descriptor, image, ...sample }) => ({
+      ...sample,
+      descriptor: descriptor ? Array.from(descriptor) : [],
+      imageUri: image ? await blobToDataUri(image) : undefined,
+    }))),
+    faceDescriptor: faceDescriptor ? Array.from(faceDescriptor) : undefined,
+  }));
+}
+
+async function writeAllUsers(db: IDBDatabase, users: UserProfile[]): Promise<void> {
+  // Las conversiones a Blob son asíncronas, así que se hacen antes de abrir la transacción
+  // (una transacción de IndexedDB se cierra sola si se espera otra cosa dentro de ella).
+  const records = await Promise.all(users.map(toRecord));
+  const tx = db.transaction(USERS_STORE, 'readwrite');
+  const store = tx.objectStore(USERS_STORE);
+  store.clear();
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+}
+
+async function readAllUsers(db: IDBDatabase): Promise<UserProfile[]> {
+  const tx = db.transaction(USERS_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(USERS_STORE).getAll() as IDBRequest<StoredUserRecord[]>);
+  return Promise.all(records.map(fromRecord));
+}
+
+// Migración única: versiones anteriores guardaban todos los usuarios solo en localStorage. La caché
+// de IndexedDB se reescribe entera con la lista del servidor, así que copiarlos ahí no basta: se
+// registran en el servidor por la misma vía que un registro normal (que recalcula el descriptor
+// desde la imagen). La clave solo se borra cuando todos están subidos; los que fallan se conservan
+// para reintentarlo en la próxima carga.
+async function migrateLegacyLocalStorageUsers(): Promise<void> {
+  const legacy = window.localStorage.getItem(LEGACY_LOCAL_STORAGE_KEY);
+  if (!legacy) return;
+  try {
+    const parsed = JSON.parse(legacy);
+    const pending: unknown[] = [];
+    let uploaded = 0;
+    for (const raw of Array.isArray(parsed) ? parsed : []) {
+      if (await uploadLegacyUser(raw)) {
+        uploaded++;
+      } else {
+        pending.push(raw);
+      }
+    }
+    if (pending.length > 0) {
+      window.localStorage.setItem(LEGACY_LOCAL_STORAGE_KEY, JSON.stringify(pending));
+      console.warn(`Migrados ${uploaded} usuarios de localStorage al servidor; ${pending.length} se reintentarán.`);
+    } else {
+      window.localStorage.removeItem(LEGACY_LOCAL_STORAGE_KEY);
+      if (uploaded > 0) console.log(`Migrados ${uploaded} usuarios de localStorage al servidor.`);
+    }
+  } catch (error) {
+    console.error("Error migrando usuarios de localStorage al servidor:", error);
+  }
+}
+
+// true si el usuario ya está en el servidor: creado ahora, retenido para revisión o rechazado con
+// 409 porque su correo o su rostro ya estaban registrados. Los registros sin imagen ni descriptor
+// no pueden subirse y se descartan.
+async function uploadLegacyUser(raw: unknown): Promise<boolean> {
+  if (!raw || typeof raw !== 'object') return true;
+  const user = migrateUser(raw as Record<string, unknown>);
+  const sample = user.faceSamples.find(s => s.descriptor.length > 0);
+  const faceImageUri = sample?.imageUri || user.faceImageUri;
+  if (!sample || !faceImageUri) {
+    console.warn(`Usuario ${user.id} de localStorage sin imagen ni descriptor; no se puede migrar.`);
+    return true;
+  }
+  try {
+    await createUser({ name: user.name, email: user.email, faceImageUri, faceDescriptor: sample.descriptor, legacyImport: true });
+    return true;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 409) return true;
+    console.error(`Error subiendo al servidor el usuario ${user.id} de localStorage:`, error);
+    return false;
+  }
+}
+
+// Almacén local de usuarios en IndexedDB. A diferencia de useLocalStorage la lectura es
+// asíncrona, por lo que el hook expone `ready` para saber cuándo terminó la carga inicial.
+function useIndexedDbUsers(): [UserProfile[], (users: UserProfile[]) => Promise<void>, boolean] {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.indexedDB) {
+      setReady(true);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        // Cada subida pasa por el pipeline facial del servidor; no se espera para mostrar la caché.
+        void migrateLegacyLocalStorageUsers();
+        const db = await openDatabase();
+        const stored = await readAllUsers(db);
+        if (!cancelled) setUsers(stored);
+      } catch (error) {
+        console.error("Error leyendo usuarios de IndexedDB:", error);
+      } finally {
+        if (!cancelled) setReady(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveUsers = useCallback(async (nextUsers: UserProfile[]) => {
+    setUsers(nextUsers);
+    if (typeof window === 'undefined' || !window.indexedDB) return;
+    try {
+      const db = await openDatabase();
+      await writeAllUsers(db, nextUsers);
+    } catch (error) {
+      console.error("Error guardando usuarios en IndexedDB:", error);
+    }
+  }, []);
+
+  return [users, saveUsers, ready];
+}
+
+export default useIndexedDbUsers;
@@ -0,0 +1,26 @@
+// Error devuelto por las rutas de `/api`. `message` ya viene redactado para mostrarse al usuario.
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Las rutas protegidas identifican al usuario por la cookie de sesión httpOnly, que el navegador
+// envía sola en las peticiones al mismo origen.
+export async function apiRequest<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+    cache: 'no-store',
+  });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = body && typeof body.error === 'string' ? body.error : 'Ocurrió un error inesperado en el servidor.';
+    throw new ApiError(message, response.status);
+  }
+  return body as T;
+}
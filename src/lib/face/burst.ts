@@ -0,0 +1,51 @@
+// Captura en ráfaga: se toman varios fotogramas del video, se descartan los de baja confianza y el
+// descriptor final es la media ponderada por calidad de los restantes. Un único fotograma movido
+// deja de arruinar la plantilla. Compartido por FaceCapture y por el servidor, que repite el
+// cálculo con sus propios descriptores.
+
+export const BURST_FRAME_COUNT = 5;
+export const BURST_FRAME_INTERVAL_MS = 120;
+// Fotogramas con una detección menos segura se descartan.
+export const BURST_MIN_DETECTION_SCORE = 0.7;
+// Con menos fotogramas válidos la ráfaga no aporta frente a una captura simple y se rechaza.
+export const BURST_MIN_KEPT_FRAMES = 2;
+
+export interface WeightedDescriptor {
+  descriptor: ArrayLike<number>;
+  weight: number;
+}
+
+// null si ningún fotograma tiene peso (p. ej. todos con calidad 0): no hay media que calcular y la
+// ráfaga debe rechazarse.
+export function weightedMeanDescriptor(items: WeightedDescriptor[]): number[] | null {
+  if (items.length === 0) {
+    throw new Error('weightedMeanDescriptor requiere al menos un descriptor');
+  }
+  const length = items[0].descriptor.length;
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  if (!(totalWeight > 0)) return null;
+  const mean = new Array<number>(length).fill(0);
+  for (const { descriptor, weight } of items) {
+    for (let i = 0; i < length; i++) {
+      mean[i] += (descriptor[i] * weight) / totalWeight;
+    }
+  }
+  return mean;
+}
+
+// Mayor distancia euclídea entre dos descriptores del conjunto. Los fotogramas de una ráfaga deben
+// ser de la misma persona: si dos quedan más lejos que el umbral de coincidencia, se rechaza.
+export function maxPairwiseDistance(descriptors: ArrayLike<number>[]): number {
+  let max = 0;
+  for (let a = 0; a < descriptors.length; a++) {
+    for (let b = a + 1; b < descriptors.length; b++) {
+      let sum = 0;
+      for (let i = 0; i < descriptors[a].length; i++) {
+        const diff = descriptors[a][i] - descriptors[b][i];
+        sum += diff * diff;
+      }
+      max = Math.max(max, Math.sqrt(sum));
+    }
+  }
+  return max;
+}
@@ -0,0 +1,82 @@
+import type { DistanceCalibration, DistanceDistribution } from '@/types';
+
+// Calibración del umbral de coincidencia. Las distancias genuinas (misma persona) e impostoras
+// (personas distintas) se modelan como normales: con pocos cientos de pares, la distribución
+// empírica no puede estimar tasas de falsa aceptación del 0.1 % o menores, y la normal extrapola
+// la cola de forma razonable para descriptores de face-api.js.
+
+export const MIN_CALIBRATION_GENUINE = 20;
+export const MIN_CALIBRATION_IMPOSTOR = 100;
+
+// Objetivos de tasa de falsa aceptación que se ofrecen al administrador.
+export const CALIBRATION_TARGET_FARS = [0.01, 0.001, 0.0001, 0.00001] as const;
+export const DEFAULT_TARGET_FAR = 0.001;
+
+export function describeDistribution(distances: number[]): DistanceDistribution {
+  if (distances.length === 0) return { count: 0, mean: 0, stdDev: 0 };
+  const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const variance = distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / Math.max(1, distances.length - 1);
+  return { count: distances.length, mean, stdDev: Math.sqrt(variance) };
+}
+
+export function fitDistanceCalibration(genuine: number[], impostor: number[]): DistanceCalibration {
+  const genuineDistribution = describeDistribution(genuine);
+  const impostorDistribution = describeDistribution(impostor);
+  return {
+    genuine: genuineDistribution,
+    impostor: impostorDistribution,
+    reliable: genuine.length >= MIN_CALIBRATION_GENUINE
+      && impostor.length >= MIN_CALIBRATION_IMPOSTOR
+      && genuineDistribution.stdDev > 0
+      && impostorDistribution.stdDev > 0,
+  };
+}
+
+// Aproximación de Abramowitz y Stegun (7.1.26) de la función de error, con error < 1.5e-7.
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+function normalCdf(x: number, { mean, stdDev }: DistanceDistribution): number {
+  return 0.5 * (1 + erf((x - mean) / (stdDev * Math.SQRT2)));
+}
+
+// Inversa de la normal estándar (algoritmo de Acklam), error relativo < 1.2e-9.
+function inverseStandardNormal(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -inverseStandardNormal(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Probabilidad estimada de que el rostro de otra persona quede a `distance` o menos: la confianza
+// que merece una coincidencia a esa distancia. Para 1:N, multiplícala aproximadamente por el
+// número de usuarios comparados.
+export function falseMatchProbability(calibration: DistanceCalibration, distance: number): number {
+  return normalCdf(distance, calibration.impostor);
+}
+
+// Probabilidad estimada de que la misma persona quede a `threshold` o más.
+export function falseRejectProbability(calibration: DistanceCalibration, threshold: number): number {
+  return 1 - normalCdf(threshold, calibration.genuine);
+}
+
+// Umbral con el que la tasa de falsa aceptación estimada es `targetFar`.
+export function recommendThreshold(calibration: DistanceCalibration, targetFar: number): number {
+  const { mean, stdDev } = calibration.impostor;
+  return Math.max(0, mean + stdDev * inverseStandardNormal(targetFar));
+}
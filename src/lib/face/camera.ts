@@ -0,0 +1,40 @@
+// Elección de la cámara de FaceCapture. La resolución de captura es independiente del tamaño de la
+// vista previa: el video se recorta por CSS para mostrarse y el worker recibe el fotograma completo.
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface CaptureResolution {
+  width: number;
+  height: number;
+}
+
+// Suficiente para que el rostro conserve detalle a un brazo de distancia sin encarecer la detección
+// ni las imágenes que se envían al servidor.
+export const DEFAULT_CAPTURE_RESOLUTION: CaptureResolution = { width: 640, height: 480 };
+
+// Claves de localStorage: la cámara elegida se recuerda por navegador.
+export const CAMERA_DEVICE_STORAGE_KEY = 'faceCaptureCameraDeviceId';
+export const CAMERA_FACING_STORAGE_KEY = 'faceCaptureCameraFacing';
+
+// Restricciones de getUserMedia. La resolución y la orientación son preferencias (`ideal`), para no
+// fallar en cámaras que no las ofrecen; el dispositivo elegido se exige (`exact`), y si ya no está
+// conectado quien llama repite la petición sin él.
+export function buildVideoConstraints(resolution: CaptureResolution, facingMode: CameraFacing, deviceId: string | null): MediaTrackConstraints {
+  return {
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height },
+    facingMode: { ideal: facingMode },
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  };
+}
+
+// Los nombres de las cámaras solo están disponibles después de conceder el permiso.
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+}
+
+export function cameraLabel(device: MediaDeviceInfo, index: number): string {
+  return device.label || `Cámara ${index + 1}`;
+}
@@ -0,0 +1,159 @@
+import type { LivenessChallengeKind } from '@/types';
+import { estimateHeadPose } from '@/lib/face/quality';
+import type { Point } from '@/lib/face/quality';
+
+// Prueba de vida activa: el servidor pide una secuencia aleatoria de gestos y cada uno se comprueba
+// frente a un fotograma neutro de referencia del mismo intento, con la pose estimada a partir de
+// los landmarks y, para la sonrisa, con face_expression_model.
+
+export const LIVENESS_CHALLENGE_KINDS = ['turn_left', 'turn_right', 'smile', 'open_mouth', 'raise_eyebrows'] as const satisfies readonly LivenessChallengeKind[];
+export const MAX_LIVENESS_CHALLENGES = 4;
+export const CHALLENGE_TIMEOUT_MS = 7000;
+
+export const CHALLENGE_INSTRUCTIONS: Record<LivenessChallengeKind, string> = {
+  turn_left: 'Gira la cabeza hacia tu izquierda.',
+  turn_right: 'Gira la cabeza hacia tu derecha.',
+  smile: 'Sonríe.',
+  open_mouth: 'Abre la boca.',
+  raise_eyebrows: 'Levanta las cejas.',
+};
+
+export const NEUTRAL_INSTRUCTION = 'Mira de frente a la cámara con expresión neutra.';
+
+export const CHALLENGE_THRESHOLDS = {
+  neutralMaxYaw: 10, // Grados
+  turnMinYaw: 20,
+  neutralMaxMouthOpen: 0.15, // Apertura de los labios interiores respecto a la anchura de la boca
+  openMouthMin: 0.35,
+  browRaiseMinRatio: 1.12, // Altura de las cejas respecto a la del fotograma neutro
+  neutralMaxHappy: 0.5, // Probabilidad de la expresión "happy"
+  smileMinHappy: 0.8,
+} as const;
+
+// Medidas de un fotograma relevantes para los retos.
+export interface ChallengeFeatures {
+  yaw: number; // Grados, positivo hacia la derecha del usuario
+  mouthOpen: number;
+  browHeight: number; // Distancia media ceja-ojo normalizada por la distancia entre los ojos
+  happy: number | null; // null si no se evaluaron expresiones en este fotograma
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function meanY(points: Point[]): number {
+  return points.reduce((sum, p) => sum + p.y, 0) / points.length;
+}
+
+// `mirrored` indica si la imagen está en espejo (las capturas y la evidencia lo están; la vista
+// previa sin procesar no). Con la imagen en espejo, girar hacia la izquierda del usuario lleva la
+// nariz hacia la izquierda de la imagen, de modo que el yaw se invierte para normalizarlo.
+export function measureChallengeFeatures(landmarks: Point[], options: { mirrored: boolean; happy?: number | null }): ChallengeFeatures {
+  const { yaw } = estimateHeadPose(landmarks);
+  const mouthWidth = distance(landmarks[60], landmarks[64]);
+  const mouthGap = (distance(landmarks[61], landmarks[67]) + distance(landmarks[62], landmarks[66]) + distance(landmarks[63], landmarks[65])) / 3;
+  const eyeDistance = distance(landmarks[39], landmarks[42]) || 1;
+  const leftBrow = meanY(landmarks.slice(36, 42)) - meanY(landmarks.slice(17, 22));
+  const rightBrow = meanY(landmarks.slice(42, 48)) - meanY(landmarks.slice(22, 27));
+  return {
+    yaw: options.mirrored ? -yaw : yaw,
+    mouthOpen: mouthWidth > 0 ? mouthGap / mouthWidth : 0,
+    browHeight: (leftBrow + rightBrow) / 2 / eyeDistance,
+    happy: options.happy ?? null,
+  };
+}
+
+export function isNeutralFace(features: ChallengeFeatures): boolean {
+  const t = CHALLENGE_THRESHOLDS;
+  return Math.abs(features.yaw) <= t.neutralMaxYaw
+    && features.mouthOpen <= t.neutralMaxMouthOpen
+    && (features.happy === null || features.happy <= t.neutralMaxHappy);
+}
+
+export function isChallengeSatisfied(kind: LivenessChallengeKind, neutral: ChallengeFeatures, current: ChallengeFeatures): boolean {
+  const t = CHALLENGE_THRESHOLDS;
+  switch (kind) {
+    case 'turn_left':
+      return current.yaw <= -t.turnMinYaw;
+    case 'turn_right':
+      return current.yaw >= t.turnMinYaw;
+    case 'smile':
+      return current.happy !== null && current.happy >= t.smileMinHappy;
+    case 'open_mouth':
+      return current.mouthOpen >= t.openMouthMin;
+    case 'raise_eyebrows':
+      return neutral.browHeight > 0 && current.browHeight >= neutral.browHeight * t.browRaiseMinRatio;
+  }
+}
+
+export type ChallengeProgress =
+  | { status: 'awaiting_neutral' }
+  | { status: 'in_progress'; step: number; remainingMs: number }
+  | { status: 'completed' }
+  | { status: 'timed_out'; step: number };
+
+export interface ChallengeSequenceResult<F> {
+  neutralFrame: F;
+  responses: { challenge: LivenessChallengeKind; frame: F }[];
+}
+
+// Recorre una secuencia de retos con los fotogramas de la vista previa: primero espera un
+// fotograma neutro de referencia y después, en orden, uno que cumpla cada reto antes de que venza
+// su plazo. Como en BlinkTracker, `F` es lo que se conserva de cada fotograma como evidencia.
+export class ChallengeSequence<F> {
+  private neutral: { features: ChallengeFeatures; frame: F } | null = null;
+  private responses: { challenge: LivenessChallengeKind; frame: F }[] = [];
+  private deadline = 0;
+  private timedOutStep: number | null = null;
+
+  constructor(readonly challenges: LivenessChallengeKind[], private readonly timeoutMs: number) {}
+
+  update(features: ChallengeFeatures, frame: F, timestamp: number): ChallengeProgress {
+    const current = this.progress(timestamp);
+    if (current.status === 'completed' || current.status === 'timed_out') return current;
+
+    if (!this.neutral) {
+      if (!isNeutralFace(features)) return current;
+      this.neutral = { features, frame };
+      this.deadline = timestamp + this.timeoutMs;
+      return this.progress(timestamp);
+    }
+
+    const step = this.responses.length;
+    if (timestamp > this.deadline) {
+      this.timedOutStep = step;
+      return this.progress(timestamp);
+    }
+    if (isChallengeSatisfied(this.challenges[step], this.neutral.features, features)) {
+      this.responses.push({ challenge: this.challenges[step], frame });
+      this.deadline = timestamp + this.timeoutMs;
+    }
+    return this.progress(timestamp);
+  }
+
+  progress(timestamp: number): ChallengeProgress {
+    if (this.timedOutStep !== null) return { status: 'timed_out', step: this.timedOutStep };
+    if (!this.neutral) return { status: 'awaiting_neutral' };
+    if (this.responses.length === this.challenges.length) return { status: 'completed' };
+    return { status: 'in_progress', step: this.responses.length, remainingMs: Math.max(0, this.deadline - timestamp) };
+  }
+
+  // La sonrisa y la referencia neutra necesitan face_expression_model; el resto, solo landmarks.
+  needsExpressions(): boolean {
+    if (!this.neutral) return true;
+    return this.challenges[this.responses.length] === 'smile';
+  }
+
+  get result(): ChallengeSequenceResult<F> | null {
+    if (!this.neutral || this.responses.length !== this.challenges.length) return null;
+    return { neutralFrame: this.neutral.frame, responses: this.responses };
+  }
+
+  reset(): void {
+    this.neutral = null;
+    this.responses = [];
+    this.deadline = 0;
+    this.timedOutStep = null;
+  }
+}
@@ -0,0 +1,40 @@
+import type { DescriptorVersion, DetectorSettings, FaceSample } from '@/types';
+import { LANDMARK_MODEL_NAMES, RECOGNITION_MODEL_NAME } from '@/lib/face/detector';
+
+// Versión del pipeline de descriptores. Debe subirse al cambiar algo que altere los descriptores
+// sin cambiar el nombre de un modelo: otros pesos con el mismo nombre, el preprocesado de la
+// imagen o la alineación del rostro.
+export const DESCRIPTOR_PIPELINE_VERSION = 1;
+
+export function getDescriptorVersion(settings: DetectorSettings): DescriptorVersion {
+  return {
+    pipeline: DESCRIPTOR_PIPELINE_VERSION,
+    recognitionModel: RECOGNITION_MODEL_NAME,
+    landmarkModel: LANDMARK_MODEL_NAMES[settings.useTinyLandmarks ? 'tiny' : 'full'],
+    detector: settings.kind,
+    inputSize: settings.inputSize,
+    scoreThreshold: settings.scoreThreshold,
+  };
+}
+
+// Dos descriptores solo se comparan si los produjo la misma red, con la misma alineación. Las
+// muestras de usuarios anteriores al versionado reciben la versión base al migrar su esquema (ver
+// user-schema.ts); una muestra sin versión no es comparable con nada.
+export function isSameDescriptorVersion(a: DescriptorVersion | null, b: DescriptorVersion | null): boolean {
+  // Las muestras de registros retenidos antes del versionado no tienen el campo.
+  if (!a || !b) return false;
+  return a.pipeline === b.pipeline
+    && a.recognitionModel === b.recognitionModel
+    && a.landmarkModel === b.landmarkModel
+    && a.detector === b.detector;
+}
+
+export function describeDescriptorVersion(version: DescriptorVersion | null): string {
+  if (!version) return 'sin versión';
+  return `v${version.pipeline} · ${version.detector} · ${version.landmarkModel}`;
+}
+
+// Muestras de la galería comparables con descriptores de `version`.
+export function compatibleSamples<S extends Pick<FaceSample, 'descriptorVersion'>>(samples: S[], version: DescriptorVersion): S[] {
+  return samples.filter(sample => isSameDescriptorVersion(sample.descriptorVersion, version));
+}
@@ -0,0 +1,142 @@
+import type { DetectorSettings } from '@/types';
+import { TINY_INPUT_SIZES } from '@/lib/face/detector';
+
+// Ritmo de la detección de la vista previa de FaceCapture. Se detecta sobre los fotogramas que
+// entrega el video, con una sola detección en curso; si el worker tarda más de lo previsto se
+// omiten más fotogramas y, con TinyFaceDetector, se reduce temporalmente el tamaño de entrada. La
+// captura siempre usa la configuración del administrador.
+
+// Peso de la última medida en la media móvil de la latencia.
+export const LATENCY_SMOOTHING = 0.2;
+// Con la latencia por encima de este múltiplo del intervalo objetivo se reduce el tamaño de
+// entrada; por debajo del segundo se recupera.
+export const SLOW_LATENCY_RATIO = 1.5;
+export const FAST_LATENCY_RATIO = 0.5;
+// Margen sobre la latencia entre detecciones, para que el worker no trabaje sin pausa.
+export const LATENCY_HEADROOM = 1.25;
+export const MIN_ADAPTIVE_INPUT_SIZE = 160;
+// Detecciones entre dos cambios de tamaño, para que la media refleje el tamaño nuevo.
+export const INPUT_SIZE_COOLDOWN = 10;
+export const TELEMETRY_WINDOW_MS = 1000;
+
+export interface DetectionTelemetry {
+  detectionFps: number; // Detecciones completadas por segundo
+  videoFps: number; // Fotogramas entregados por el video por segundo
+  latencyMs: number; // Media móvil del tiempo entre enviar el fotograma y recibir el resultado
+  skippedFrames: number; // Fotogramas sin detectar en el último segundo
+  inputSize: number | null; // Tamaño de entrada vigente (solo TinyFaceDetector)
+}
+
+export class AdaptiveDetectionScheduler {
+  private inFlight = false;
+  private lastStart = -Infinity;
+  private latency: number | null = null;
+  private inputSize: number;
+  private detectionsSinceResize = 0;
+  private readonly frameTimes: number[] = [];
+  private readonly skippedTimes: number[] = [];
+  private readonly completionTimes: number[] = [];
+
+  constructor(private readonly detector: DetectorSettings, private readonly targetIntervalMs: number) {
+    this.inputSize = detector.inputSize;
+  }
+
+  // Configuración para la próxima detección de la vista previa.
+  get settings(): DetectorSettings {
+    return this.detector.kind === 'tiny' ? { ...this.detector, inputSize: this.inputSize } : this.detector;
+  }
+
+  // Se llama con cada fotograma del video; true si hay que detectar en este. Tras un true debe
+  // llamarse a `complete` o `fail`.
+  onFrame(now: number): boolean {
+    this.frameTimes.push(now);
+    const interval = Math.max(this.targetIntervalMs, (this.latency ?? 0) * LATENCY_HEADROOM);
+    if (this.inFlight || now - this.lastStart < interval) {
+      this.skippedTimes.push(now);
+      return false;
+    }
+    this.inFlight = true;
+    this.lastStart = now;
+    return true;
+  }
+
+  complete(now: number): void {
+    if (!this.inFlight) return;
+    this.inFlight = false;
+    const latency = now - this.lastStart;
+    this.latency = this.latency === null ? latency : this.latency + LATENCY_SMOOTHING * (latency - this.latency);
+    this.completionTimes.push(now);
+    this.detectionsSinceResize++;
+    this.adaptInputSize();
+  }
+
+  fail(): void {
+    this.inFlight = false;
+  }
+
+  telemetry(now: number): DetectionTelemetry {
+    const since = now - TELEMETRY_WINDOW_MS;
+    for (const times of [this.frameTimes, this.skippedTimes, this.completionTimes]) {
+      while (times.length > 0 && times[0] < since) times.shift();
+    }
+    const perSecond = 1000 / TELEMETRY_WINDOW_MS;
+    return {
+      detectionFps: this.completionTimes.length * perSecond,
+      videoFps: this.frameTimes.length * perSecond,
+      latencyMs: this.latency ?? 0,
+      skippedFrames: this.skippedTimes.length,
+      inputSize: this.detector.kind === 'tiny' ? this.inputSize : null,
+    };
+  }
+
+  private adaptInputSize() {
+    if (this.detector.kind !== 'tiny' || this.latency === null || this.detectionsSinceResize < INPUT_SIZE_COOLDOWN) return;
+    const index = TINY_INPUT_SIZES.indexOf(this.inputSize as (typeof TINY_INPUT_SIZES)[number]);
+    if (index < 0) return;
+    let next = this.inputSize;
+    if (this.latency > this.targetIntervalMs * SLOW_LATENCY_RATIO && index > 0 && TINY_INPUT_SIZES[index - 1] >= MIN_ADAPTIVE_INPUT_SIZE) {
+      next = TINY_INPUT_SIZES[index - 1];
+    } else if (this.latency < this.targetIntervalMs * FAST_LATENCY_RATIO && this.inputSize < this.detector.inputSize) {
+      next = TINY_INPUT_SIZES[index + 1];
+    }
+    if (next !== this.inputSize) {
+      this.inputSize = next;
+      this.detectionsSinceResize = 0;
+    }
+  }
+}
+
+// Llama a `onFrame` con cada fotograma nuevo del video y devuelve la función que detiene el bucle.
+// Usa requestVideoFrameCallback donde existe; si no, requestAnimationFrame filtrando los cuadros en
+// los que el video no avanzó.
+export function watchVideoFrames(video: HTMLVideoElement, onFrame: (now: number) => void): () => void {
+  let stopped = false;
+  if (typeof video.requestVideoFrameCallback === 'function') {
+    let handle = 0;
+    const tick = (now: number) => {
+      if (stopped) return;
+      onFrame(now);
+      handle = video.requestVideoFrameCallback(tick);
+    };
+    handle = video.requestVideoFrameCallback(tick);
+    return () => {
+      stopped = true;
+      video.cancelVideoFrameCallback(handle);
+    };
+  }
+  let handle = 0;
+  let lastTime = -1;
+  const tick = (now: number) => {
+    if (stopped) return;
+    if (video.currentTime !== lastTime) {
+      lastTime = video.currentTime;
+      onFrame(now);
+    }
+    handle = requestAnimationFrame(tick);
+  };
+  handle = requestAnimationFrame(tick);
+  return () => {
+    stopped = true;
+    cancelAnimationFrame(handle);
+  };
+}
@@ -0,0 +1,79 @@
+import * as faceapi from 'face-api.js';
+import type { DetectorSettings, FaceDetectorKind, TfBackend } from '@/types';
+
+// Configuración de detección compartida por la vista previa y la captura de FaceCapture y por el
+// pipeline del servidor, para que todos detecten y alineen el rostro del mismo modo.
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  kind: 'tiny',
+  inputSize: 320,
+  scoreThreshold: 0.5,
+  useTinyLandmarks: false,
+  multipleFacePolicy: 'reject',
+  backend: 'auto',
+};
+
+export const TF_BACKEND_LABELS: Record<TfBackend, string> = {
+  webgl: 'WebGL',
+  wasm: 'WebAssembly',
+  cpu: 'CPU',
+};
+
+// Tamaños de entrada admitidos por TinyFaceDetector (múltiplos de 32).
+export const TINY_INPUT_SIZES = [128, 160, 224, 320, 416, 512, 608] as const;
+
+// Nombre base de los archivos de pesos en `public/models` (`<nombre>-weights_manifest.json`).
+export const DETECTOR_MODEL_NAMES: Record<FaceDetectorKind, string> = {
+  tiny: 'tiny_face_detector_model',
+  ssd: 'ssd_mobilenetv1_model',
+  mtcnn: 'mtcnn_model',
+};
+
+export const LANDMARK_MODEL_NAMES = {
+  full: 'face_landmark_68_model',
+  tiny: 'face_landmark_68_tiny_model',
+} as const;
+
+export const RECOGNITION_MODEL_NAME = 'face_recognition_model';
+
+// Solo para los retos de prueba de vida (sonrisa); no forma parte del pipeline de descriptores.
+export const EXPRESSION_MODEL_NAME = 'face_expression_model';
+
+export function getDetectorNet(kind: FaceDetectorKind): faceapi.NeuralNetwork<unknown> {
+  switch (kind) {
+    case 'ssd':
+      return faceapi.nets.ssdMobilenetv1;
+    case 'mtcnn':
+      return faceapi.nets.mtcnn;
+    default:
+      return faceapi.nets.tinyFaceDetector;
+  }
+}
+
+export function getLandmarkNet(useTinyLandmarks: boolean): faceapi.NeuralNetwork<unknown> {
+  return useTinyLandmarks ? faceapi.nets.faceLandmark68TinyNet : faceapi.nets.faceLandmark68Net;
+}
+
+// Modelos que deben estar cargados para detectar y calcular descriptores con esta configuración,
+// emparejados con el nombre de sus pesos.
+export function getRequiredModels(settings: DetectorSettings): { net: faceapi.NeuralNetwork<unknown>; modelName: string }[] {
+  return [
+    { net: getDetectorNet(settings.kind), modelName: DETECTOR_MODEL_NAMES[settings.kind] },
+    { net: getLandmarkNet(settings.useTinyLandmarks), modelName: LANDMARK_MODEL_NAMES[settings.useTinyLandmarks ? 'tiny' : 'full'] },
+    { net: faceapi.nets.faceRecognitionNet, modelName: RECOGNITION_MODEL_NAME },
+  ];
+}
+
+// `inputSize` solo aplica a TinyFaceDetector; SSD MobileNet trabaja a resolución fija y MTCNN
+// recorre varias escalas. `scoreThreshold` es la confianza mínima en los tres casos (en MTCNN, la
+// de la última etapa).
+export function createDetectorOptions(settings: DetectorSettings): faceapi.FaceDetectionOptions {
+  switch (settings.kind) {
+    case 'ssd':
+      return new faceapi.SsdMobilenetv1Options({ minConfidence: settings.scoreThreshold });
+    case 'mtcnn':
+      return new faceapi.MtcnnOptions({ scoreThresholds: [0.6, 0.7, settings.scoreThreshold] });
+    default:
+      return new faceapi.TinyFaceDetectorOptions({ inputSize: settings.inputSize, scoreThreshold: settings.scoreThreshold });
+  }
+}
@@ -0,0 +1,104 @@
+// Métricas de rendimiento del reconocimiento a partir de distancias entre descriptores: pares
+// genuinos (misma persona) e impostores (personas distintas). Un par se acepta como coincidencia
+// cuando su distancia es menor que el umbral, la misma regla que usa face-matching.
+
+export interface DistanceStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  genuine: number;
+  impostor: number;
+}
+
+export interface ThresholdMetrics {
+  threshold: number;
+  far: number; // Tasa de falsa aceptación: impostores con distancia < umbral
+  frr: number; // Tasa de falso rechazo: genuinos con distancia >= umbral
+}
+
+export interface EvaluationMetrics {
+  genuine: DistanceStats;
+  impostor: DistanceStats;
+  histogram: HistogramBin[];
+  curve: ThresholdMetrics[]; // FAR y FRR para cada umbral; la curva ROC es (far, 1 - frr)
+  eer: ThresholdMetrics & { rate: number }; // Punto en que FAR y FRR se cruzan
+}
+
+export const DEFAULT_THRESHOLD_STEP = 0.01;
+const MAX_DISTANCE = 1.2; // Las distancias entre descriptores normalizados rara vez pasan de 1
+const HISTOGRAM_BIN_WIDTH = 0.05;
+
+export function describeDistances(distances: number[]): DistanceStats {
+  if (distances.length === 0) return { count: 0, min: 0, max: 0, mean: 0, stdDev: 0 };
+  const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const variance = distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / distances.length;
+  return {
+    count: distances.length,
+    min: distances.reduce((a, b) => Math.min(a, b)),
+    max: distances.reduce((a, b) => Math.max(a, b)),
+    mean,
+    stdDev: Math.sqrt(variance),
+  };
+}
+
+// Fracción de `sorted` (ordenado de menor a mayor) estrictamente por debajo de `value`.
+function fractionBelow(sorted: number[], value: number): number {
+  if (sorted.length === 0) return 0;
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo / sorted.length;
+}
+
+export function thresholdMetrics(sortedGenuine: number[], sortedImpostor: number[], threshold: number): ThresholdMetrics {
+  return {
+    threshold,
+    far: fractionBelow(sortedImpostor, threshold),
+    frr: sortedGenuine.length > 0 ? 1 - fractionBelow(sortedGenuine, threshold) : 0,
+  };
+}
+
+function buildHistogram(genuine: number[], impostor: number[], maxDistance: number): HistogramBin[] {
+  const bins: HistogramBin[] = [];
+  for (let from = 0; from < maxDistance; from += HISTOGRAM_BIN_WIDTH) {
+    bins.push({ from, to: from + HISTOGRAM_BIN_WIDTH, genuine: 0, impostor: 0 });
+  }
+  const binOf = (d: number) => Math.min(bins.length - 1, Math.floor(d / HISTOGRAM_BIN_WIDTH));
+  genuine.forEach(d => bins[binOf(d)].genuine++);
+  impostor.forEach(d => bins[binOf(d)].impostor++);
+  return bins;
+}
+
+export function evaluateDistances(genuine: number[], impostor: number[], step = DEFAULT_THRESHOLD_STEP): EvaluationMetrics {
+  const sortedGenuine = [...genuine].sort((a, b) => a - b);
+  const sortedImpostor = [...impostor].sort((a, b) => a - b);
+  const maxDistance = Math.max(MAX_DISTANCE, sortedGenuine[sortedGenuine.length - 1] ?? 0, sortedImpostor[sortedImpostor.length - 1] ?? 0);
+
+  const curve: ThresholdMetrics[] = [];
+  // Se redondea cada umbral para que la acumulación en coma flotante no produzca 0.5499999.
+  for (let i = 0; i * step <= maxDistance + step / 2; i++) {
+    curve.push(thresholdMetrics(sortedGenuine, sortedImpostor, Number((i * step).toFixed(6))));
+  }
+
+  // FAR crece y FRR decrece con el umbral: el EER está donde la diferencia es mínima.
+  const closest = curve.reduce((best, point) => (Math.abs(point.far - point.frr) < Math.abs(best.far - best.frr) ? point : best));
+
+  return {
+    genuine: describeDistances(genuine),
+    impostor: describeDistances(impostor),
+    histogram: buildHistogram(genuine, impostor, maxDistance),
+    curve,
+    eer: { ...closest, rate: (closest.far + closest.frr) / 2 },
+  };
+}
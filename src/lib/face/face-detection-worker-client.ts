@@ -0,0 +1,107 @@
+import type { DetectorSettings } from '@/types';
+import { ModelIntegrityError } from '@/lib/face/model-integrity';
+import type { BackendSelection, CropRequest, FaceWorkerMessage, FaceWorkerRequest, FaceWorkerResponse, FaceWorkerResults, FrameDescription, FrameDetection, ModelLoadProgress, WorkerFrame } from '@/lib/face/worker-protocol';
+
+interface PendingRequest {
+  resolve: (result: never) => void;
+  reject: (error: Error) => void;
+  onModelLoaded?: (modelName: string) => void;
+}
+
+// Lado del hilo principal del worker de detección: convierte cada petición en una promesa. Los
+// fotogramas se transfieren al worker, así que no pueden reutilizarse después de enviarlos.
+export class FaceDetectionWorkerClient {
+  private readonly worker: Worker;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly progressListeners = new Set<(progress: ModelLoadProgress) => void>();
+  private nextId = 0;
+
+  constructor() {
+    this.worker = new Worker(new URL('../../workers/face-detection.worker.ts', import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      // Un error sin capturar (p. ej. al iniciar el worker) deja sin respuesta a todas las peticiones.
+      this.rejectAll(new Error(event.message || 'Face detection worker failed'));
+    };
+  }
+
+  loadModels(detector: DetectorSettings, withExpressions: boolean, onModelLoaded?: (modelName: string) => void): Promise<BackendSelection> {
+    return this.request({ type: 'load', detector, withExpressions }, [], onModelLoaded);
+  }
+
+  detect(frame: WorkerFrame, detector: DetectorSettings, options: { withLandmarks: boolean; withExpressions: boolean; crop: CropRequest | null }): Promise<FrameDetection> {
+    return this.request({ type: 'detect', frame, detector, ...options }, [frame]);
+  }
+
+  describe(frame: WorkerFrame, detector: DetectorSettings, options: { mirror: boolean }): Promise<FrameDescription> {
+    return this.request({ type: 'describe', frame, detector, ...options }, [frame]);
+  }
+
+  // Avisa del progreso de descarga de cada modelo, pedido por esta u otra instancia de FaceCapture.
+  // Devuelve la función que cancela la suscripción.
+  onModelProgress(listener: (progress: ModelLoadProgress) => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  private request<R extends FaceWorkerRequest>(
+    request: R,
+    transfer: Transferable[],
+    onModelLoaded?: (modelName: string) => void,
+  ): Promise<FaceWorkerResults[R['type']]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: never) => void, reject, onModelLoaded });
+      const message: FaceWorkerMessage = { ...request, id };
+      this.worker.postMessage(message, transfer);
+    });
+  }
+
+  private handleResponse(response: FaceWorkerResponse) {
+    if (response.type === 'model_progress') {
+      this.progressListeners.forEach(listener => listener(response.progress));
+      return;
+    }
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    if (response.type === 'model_loaded') {
+      pending.onModelLoaded?.(response.modelName);
+      return;
+    }
+    this.pending.delete(response.id);
+    if (response.type === 'error') {
+      pending.reject(response.integrityFile !== undefined
+        ? new ModelIntegrityError(response.message, response.integrityFile)
+        : new Error(response.message));
+    } else {
+      pending.resolve(response.result as never);
+    }
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
+
+let sharedClient: FaceDetectionWorkerClient | null = null;
+
+// Un solo worker por página: los modelos se cargan una vez y siguen en memoria cuando se desmonta
+// un FaceCapture (p. ej. al cerrar el diálogo de /admin/users) y se monta otro.
+export function getFaceDetectionWorker(): FaceDetectionWorkerClient {
+  if (!sharedClient) {
+    sharedClient = new FaceDetectionWorkerClient();
+  }
+  return sharedClient;
+}
+
+// Fotograma actual del video para enviarlo al worker: VideoFrame donde existe (sin copia) y, si
+// no, un ImageBitmap.
+export async function grabVideoFrame(video: HTMLVideoElement): Promise<WorkerFrame> {
+  if (typeof VideoFrame !== 'undefined') {
+    return new VideoFrame(video);
+  }
+  return createImageBitmap(video);
+}
@@ -0,0 +1,40 @@
+import type { MultipleFacePolicy } from '@/types';
+import type { FaceBox } from '@/lib/face/quality';
+
+// Qué rostro usar cuando el detector encuentra varios en el mismo fotograma. La vista previa, la
+// captura y el servidor aplican la misma política para no enrolar ni comparar a otra persona.
+
+export const MULTIPLE_FACE_MESSAGES: Record<MultipleFacePolicy, string> = {
+  reject: 'Hay más de un rostro en la imagen. Asegúrate de que solo aparezcas tú.',
+  largest: 'Hay varios rostros: se usará el más cercano a la cámara.',
+  central: 'Hay varios rostros: se usará el del centro de la imagen.',
+};
+
+export type FaceSelection<T> =
+  | { status: 'none' }
+  | { status: 'rejected'; faces: T[] } // Política 'reject' con más de un rostro
+  | { status: 'selected'; face: T; faces: T[] }; // `face` es el principal; `faces`, todos los detectados
+
+function area(box: FaceBox): number {
+  return box.width * box.height;
+}
+
+function distanceToCenter(box: FaceBox, frame: { width: number; height: number }): number {
+  return Math.hypot(box.x + box.width / 2 - frame.width / 2, box.y + box.height / 2 - frame.height / 2);
+}
+
+// `getBox` adapta el tipo de detección de cada llamador (face-api.js o el del servidor).
+export function selectFace<T>(
+  faces: T[],
+  policy: MultipleFacePolicy,
+  frame: { width: number; height: number },
+  getBox: (face: T) => FaceBox
+): FaceSelection<T> {
+  if (faces.length === 0) return { status: 'none' };
+  if (faces.length > 1 && policy === 'reject') return { status: 'rejected', faces };
+
+  const face = policy === 'central'
+    ? faces.reduce((a, b) => (distanceToCenter(getBox(b), frame) < distanceToCenter(getBox(a), frame) ? b : a))
+    : faces.reduce((a, b) => (area(getBox(b)) > area(getBox(a)) ? b : a));
+  return { status: 'selected', face, faces };
+}
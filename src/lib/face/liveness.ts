@@ -0,0 +1,93 @@
+import type { Point } from '@/lib/face/quality';
+
+// Prueba de vida por parpadeo. El "eye aspect ratio" (EAR, Soukupová y Čech, 2016) relaciona la
+// altura y la anchura del ojo a partir de sus 6 landmarks: cae bruscamente al cerrar el ojo y
+// vuelve al abrirlo. Una foto impresa no parpadea.
+
+// Mínimo EAR de un ojo abierto; por debajo, el rostro no sirve para establecer la referencia.
+export const MIN_OPEN_EAR = 0.18;
+// El ojo cuenta como cerrado por debajo de esta fracción del EAR de referencia con ojos abiertos...
+export const BLINK_CLOSED_RATIO = 0.75;
+// ...y vuelve a estar abierto por encima de esta otra.
+export const BLINK_REOPEN_RATIO = 0.9;
+// Un parpadeo natural dura 100–400 ms; más tiempo con los ojos cerrados no cuenta.
+export const MAX_BLINK_DURATION_MS = 600;
+// El parpadeo debe haber ocurrido en esta ventana anterior a la captura.
+export const LIVENESS_WINDOW_MS = 8000;
+// Fotogramas con ojos abiertos necesarios antes de fijar la referencia.
+const BASELINE_FRAMES = 3;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// `eye` son los 6 landmarks de un ojo en el orden del esquema de 68 puntos.
+export function eyeAspectRatio(eye: Point[]): number {
+  const horizontal = distance(eye[0], eye[3]);
+  if (horizontal === 0) return 0;
+  return (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * horizontal);
+}
+
+// EAR medio de ambos ojos a partir de los 68 landmarks.
+export function faceEyeAspectRatio(landmarks: Point[]): number {
+  return (eyeAspectRatio(landmarks.slice(36, 42)) + eyeAspectRatio(landmarks.slice(42, 48))) / 2;
+}
+
+export interface BlinkEvent<F> {
+  openFrame: F;
+  closedFrame: F;
+  openEar: number;
+  closedEar: number;
+  timestamp: number;
+}
+
+// Sigue el EAR en fotogramas consecutivos y notifica cada parpadeo completo (abierto → cerrado →
+// abierto) junto con un fotograma abierto y el fotograma más cerrado, que sirven de evidencia.
+// `F` es lo que la persona que llama quiera conservar de cada fotograma (p. ej. sus píxeles).
+export class BlinkTracker<F> {
+  private baselineEar = 0;
+  private openFrames = 0;
+  private lastOpen: { frame: F; ear: number } | null = null;
+  private closed: { frame: F; ear: number; since: number } | null = null;
+
+  update(landmarks: Point[], frame: F, timestamp: number): BlinkEvent<F> | null {
+    const ear = faceEyeAspectRatio(landmarks);
+
+    if (this.closed) {
+      if (ear < this.closed.ear) {
+        this.closed = { ...this.closed, frame, ear };
+      }
+      if (ear < this.baselineEar * BLINK_REOPEN_RATIO) {
+        return null;
+      }
+      const closed = this.closed;
+      this.closed = null;
+      if (timestamp - closed.since > MAX_BLINK_DURATION_MS || !this.lastOpen) {
+        return null;
+      }
+      const event = { openFrame: this.lastOpen.frame, closedFrame: closed.frame, openEar: this.lastOpen.ear, closedEar: closed.ear, timestamp };
+      this.lastOpen = { frame, ear };
+      return event;
+    }
+
+    if (this.openFrames >= BASELINE_FRAMES && ear < this.baselineEar * BLINK_CLOSED_RATIO) {
+      this.closed = { frame, ear, since: timestamp };
+      return null;
+    }
+
+    if (ear >= MIN_OPEN_EAR) {
+      // Media móvil: se adapta a la forma de los ojos de cada persona y a cambios de distancia.
+      this.baselineEar = this.openFrames === 0 ? ear : this.baselineEar * 0.8 + ear * 0.2;
+      this.openFrames++;
+      this.lastOpen = { frame, ear };
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.baselineEar = 0;
+    this.openFrames = 0;
+    this.lastOpen = null;
+    this.closed = null;
+  }
+}
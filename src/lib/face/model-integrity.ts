@@ -0,0 +1,108 @@
+// Verificación de los pesos de `public/models` antes de cargarlos en `faceapi.nets.*`, tanto en el
+// worker de detección del navegador como en el pipeline del servidor. `integrity.json` lista el
+// SHA-256 de cada archivo (manifiestos y fragmentos) y va firmado con ECDSA P-256; la clave pública
+// viaja con la aplicación, así que quien solo controle los archivos servidos no puede sustituir un
+// modelo (p. ej. uno de reconocimiento que haga coincidir cualquier rostro). Se firma con
+// `npm run sign:models`.
+
+export const MODEL_INTEGRITY_FILE = 'integrity.json';
+export const MODEL_SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+export const WEIGHTS_MANIFEST_SUFFIX = '-weights_manifest.json';
+
+// Clave pública (SPKI en base64) que firmó los pesos distribuidos con el proyecto. Quien sustituya
+// los modelos los firma con su propia clave y la configura en NEXT_PUBLIC_MODEL_SIGNING_KEY.
+export const DEFAULT_MODEL_SIGNING_KEY = 'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE0GIl0O/+1xZJCbILkzwErDwythnMUMFMqP0vhcp24PrSbB4yWNcn004j4OjlnUZ1frDXigARJCsTTSvwtKfq9g==';
+
+export interface ModelIntegrityManifest {
+  version: 1;
+  algorithm: typeof MODEL_SIGNATURE_ALGORITHM;
+  signedAt: string;
+  files: Record<string, string>; // Nombre del archivo en `public/models` -> SHA-256 en hexadecimal
+  signature: string; // Base64; firma ECDSA (r||s) de `integrityPayload`
+}
+
+export class ModelIntegrityError extends Error {
+  constructor(message: string, readonly file: string | null) {
+    super(message);
+    this.name = 'ModelIntegrityError';
+  }
+}
+
+export function getModelSigningKey(): string {
+  return process.env.NEXT_PUBLIC_MODEL_SIGNING_KEY || DEFAULT_MODEL_SIGNING_KEY;
+}
+
+// Lo que se firma: los metadatos y los archivos ordenados por nombre, para que el resultado no
+// dependa del orden de las claves en el JSON.
+export function integrityPayload(manifest: Omit<ModelIntegrityManifest, 'signature'>): string {
+  const files = Object.keys(manifest.files).sort().map(name => [name, manifest.files[name]]);
+  return JSON.stringify({ version: manifest.version, algorithm: manifest.algorithm, signedAt: manifest.signedAt, files });
+}
+
+// Fragmentos que referencia un `*-weights_manifest.json` de face-api.js (los `paths` de cada grupo
+// de pesos). Un manifiesto con otro formato no referencia ninguno.
+export function weightsManifestPaths(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(group => {
+    const paths = (group as { paths?: unknown } | null)?.paths;
+    return Array.isArray(paths) ? paths.filter((p): p is string => typeof p === 'string') : [];
+  });
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isIntegrityManifest(value: unknown): value is ModelIntegrityManifest {
+  if (typeof value !== 'object' || value === null) return false;
+  const manifest = value as Record<string, unknown>;
+  return manifest.version === 1
+    && manifest.algorithm === MODEL_SIGNATURE_ALGORITHM
+    && typeof manifest.signedAt === 'string'
+    && typeof manifest.signature === 'string'
+    && typeof manifest.files === 'object' && manifest.files !== null
+    && Object.values(manifest.files).every(hash => typeof hash === 'string' && /^[0-9a-f]{64}$/.test(hash));
+}
+
+// Comprueba el formato y la firma de `integrity.json`. Lanza ModelIntegrityError si no es válido.
+export async function verifyIntegrityManifest(raw: unknown, publicKey: string = getModelSigningKey()): Promise<ModelIntegrityManifest> {
+  if (!publicKey) {
+    throw new ModelIntegrityError('No hay una clave pública configurada para verificar los modelos (NEXT_PUBLIC_MODEL_SIGNING_KEY).', MODEL_INTEGRITY_FILE);
+  }
+  if (!isIntegrityManifest(raw)) {
+    throw new ModelIntegrityError(`${MODEL_INTEGRITY_FILE} no tiene el formato esperado.`, MODEL_INTEGRITY_FILE);
+  }
+  let valid = false;
+  try {
+    const key = await crypto.subtle.importKey('spki', fromBase64(publicKey), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      fromBase64(raw.signature),
+      new TextEncoder().encode(integrityPayload(raw)),
+    );
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new ModelIntegrityError(`La firma de ${MODEL_INTEGRITY_FILE} no corresponde a la clave configurada.`, MODEL_INTEGRITY_FILE);
+  }
+  return raw;
+}
+
+// Comprueba un archivo de `public/models` contra el manifiesto. Lanza ModelIntegrityError si no
+// está en la lista o si su contenido no coincide.
+export async function verifyModelFile(manifest: ModelIntegrityManifest, file: string, data: ArrayBuffer | Uint8Array): Promise<void> {
+  const expected = manifest.files[file];
+  if (!expected) {
+    throw new ModelIntegrityError(`${file} no figura en ${MODEL_INTEGRITY_FILE}.`, file);
+  }
+  if ((await sha256Hex(data)) !== expected) {
+    throw new ModelIntegrityError(`El contenido de ${file} no coincide con su huella firmada.`, file);
+  }
+}
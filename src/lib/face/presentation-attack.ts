@@ -0,0 +1,271 @@
+import type { FaceBox, Point, RgbaRaster } from '@/lib/face/quality';
+
+// Detector de ataques de presentación (una foto o un video del usuario en otra pantalla) a partir
+// de una secuencia corta de fotogramas de la vista previa. Combina cuatro indicios, cada uno entre
+// 0 (rostro real) y 1 (pantalla o papel); ninguno es concluyente por separado:
+// - Movimiento plano: un rostro real que gira produce paralaje (la nariz se desplaza respecto al
+//   contorno) y sus landmarks no se explican con una transformación afín; en una pantalla, sí.
+// - Moiré: la rejilla de píxeles de una pantalla refilmada añade energía a la escala más fina.
+// - Reflejos: brillos saturados y sin color sobre el rostro, típicos del cristal de una pantalla.
+// - Fondo solidario: si la pantalla se mueve, el fondo que la rodea se mueve con el rostro; ante
+//   una cámara fija, el fondo de una persona real permanece quieto.
+
+export const SPOOF_FRAME_COUNT = 5;
+export const SPOOF_MIN_FRAMES = 3;
+export const SPOOF_FRAME_INTERVAL_MS = 150;
+export const DEFAULT_SPOOF_THRESHOLD = 0.6;
+
+const THRESHOLDS = {
+  minMotion: 0.03, // Desplazamiento medio de landmarks (en distancias interoculares) para evaluar el paralaje
+  realResidualRatio: 0.25, // Residuo afín / movimiento a partir del cual el movimiento se considera 3D
+  naturalFineCoarseRatio: 0.7, // Energía fina / gruesa de una imagen natural; por encima crece el indicio de moiré
+  moireFineCoarseRatio: 1.0,
+  specularLuminance: 245,
+  specularMaxChroma: 20,
+  specularFraction: 0.04, // Fracción de píxeles del rostro con reflejo que da el indicio máximo
+  maxBackgroundShift: 24, // Píxeles
+} as const;
+
+const CUE_WEIGHTS = { planarMotion: 0.35, backgroundMotion: 0.35, moire: 0.15, specular: 0.15 } as const;
+
+export interface SpoofFrame {
+  raster: RgbaRaster;
+  landmarks: Point[];
+  box: FaceBox;
+}
+
+// null cuando la secuencia no permite evaluar el indicio (p. ej. si el rostro no se movió). Sin
+// ninguno de los dos indicios de movimiento el informe marca `insufficientMotion`.
+export interface SpoofCues {
+  planarMotion: number | null;
+  backgroundMotion: number | null;
+  moire: number;
+  specular: number;
+}
+
+export interface PresentationAttackReport {
+  score: number; // Media ponderada de los indicios disponibles
+  cues: SpoofCues;
+  // El rostro apenas se movió y no se pudo evaluar el paralaje: una foto sostenida quieta pasaría
+  // solo con moiré y reflejos, así que el intento no es concluyente y debe repetirse moviéndose.
+  insufficientMotion: boolean;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function meanPoint(points: Point[]): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function interocularDistance(landmarks: Point[]): number {
+  const left = meanPoint(landmarks.slice(36, 42));
+  const right = meanPoint(landmarks.slice(42, 48));
+  return Math.hypot(right.x - left.x, right.y - left.y) || 1;
+}
+
+function solve3(m: number[][], b: number[]): number[] | null {
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1])
+    - a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0])
+    + a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-9) return null;
+  return [0, 1, 2].map(col => det(m.map((row, i) => row.map((value, j) => (j === col ? b[i] : value)))) / d);
+}
+
+// Residuo RMS de la mejor transformación afín que lleva los landmarks `from` a `to`.
+function affineResidual(from: Point[], to: Point[]): number | null {
+  const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const bx = [0, 0, 0];
+  const by = [0, 0, 0];
+  from.forEach((p, i) => {
+    const row = [p.x, p.y, 1];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) m[r][c] += row[r] * row[c];
+      bx[r] += row[r] * to[i].x;
+      by[r] += row[r] * to[i].y;
+    }
+  });
+  const ax = solve3(m, bx);
+  const ay = solve3(m, by);
+  if (!ax || !ay) return null;
+  const sumSq = from.reduce((sum, p, i) => {
+    const x = ax[0] * p.x + ax[1] * p.y + ax[2];
+    const y = ay[0] * p.x + ay[1] * p.y + ay[2];
+    return sum + (x - to[i].x) ** 2 + (y - to[i].y) ** 2;
+  }, 0);
+  return Math.sqrt(sumSq / from.length);
+}
+
+// Desplazamiento medio de los landmarks entre dos fotogramas, en distancias interoculares.
+function relativeMotion(from: Point[], to: Point[]): number {
+  return from.reduce((sum, p, j) => sum + Math.hypot(to[j].x - p.x, to[j].y - p.y), 0) / from.length / interocularDistance(from);
+}
+
+// Si la secuencia tiene movimiento suficiente para evaluar el paralaje. FaceCapture no habilita la
+// captura hasta que lo tiene, y el servidor rechaza las secuencias que no.
+export function hasSufficientMotion(frames: Pick<SpoofFrame, 'landmarks'>[]): boolean {
+  return frames.slice(1).some(frame => relativeMotion(frames[0].landmarks, frame.landmarks) >= THRESHOLDS.minMotion);
+}
+
+// Región que se conserva de cada fotograma de la secuencia: el rostro con un ancho de rostro a cada
+// lado (las franjas de fondo que compara backgroundMotionCue, más su desplazamiento) y medio alto
+// arriba y abajo, limitada al fotograma.
+export function faceCropRegion(box: FaceBox, frame: { width: number; height: number }): FaceBox {
+  const x0 = Math.max(0, Math.floor(box.x - box.width));
+  const y0 = Math.max(0, Math.floor(box.y - box.height / 2));
+  const x1 = Math.min(frame.width, Math.ceil(box.x + 2 * box.width));
+  const y1 = Math.min(frame.height, Math.ceil(box.y + 1.5 * box.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+// Los fotogramas de una secuencia comparten la región mientras el rostro siga dentro de ella: las
+// cajas y los landmarks se comparan entre fotogramas en las mismas coordenadas.
+export function regionContainsFace(region: FaceBox, box: FaceBox): boolean {
+  return box.x >= region.x && box.y >= region.y
+    && box.x + box.width <= region.x + region.width && box.y + box.height <= region.y + region.height;
+}
+
+function planarMotionCue(frames: SpoofFrame[]): number | null {
+  const cues: number[] = [];
+  for (let i = 1; i < frames.length; i++) {
+    const from = frames[0].landmarks;
+    const to = frames[i].landmarks;
+    const scale = interocularDistance(from);
+    const motion = relativeMotion(from, to);
+    if (motion < THRESHOLDS.minMotion) continue;
+    const residual = affineResidual(from, to);
+    if (residual === null) continue;
+    cues.push(clamp01(1 - residual / scale / motion / THRESHOLDS.realResidualRatio));
+  }
+  return cues.length > 0 ? Math.max(...cues) : null;
+}
+
+function luminance(raster: RgbaRaster, x: number, y: number): number {
+  const i = (y * raster.width + x) * 4;
+  return 0.299 * raster.data[i] + 0.587 * raster.data[i + 1] + 0.114 * raster.data[i + 2];
+}
+
+function clipBox(raster: RgbaRaster, box: FaceBox) {
+  return {
+    x0: Math.max(0, Math.floor(box.x)),
+    y0: Math.max(0, Math.floor(box.y)),
+    x1: Math.min(raster.width, Math.ceil(box.x + box.width)),
+    y1: Math.min(raster.height, Math.ceil(box.y + box.height)),
+  };
+}
+
+// Relación entre la energía de alta frecuencia a 1 y a 2 píxeles de distancia dentro del rostro.
+function moireCue(frame: SpoofFrame): number {
+  const { raster } = frame;
+  const { x0, y0, x1, y1 } = clipBox(raster, frame.box);
+  let fine = 0;
+  let coarse = 0;
+  for (let y = y0 + 2; y < y1 - 2; y++) {
+    for (let x = x0 + 2; x < x1 - 2; x++) {
+      const center = luminance(raster, x, y);
+      fine += Math.abs(4 * center - luminance(raster, x - 1, y) - luminance(raster, x + 1, y) - luminance(raster, x, y - 1) - luminance(raster, x, y + 1));
+      coarse += Math.abs(4 * center - luminance(raster, x - 2, y) - luminance(raster, x + 2, y) - luminance(raster, x, y - 2) - luminance(raster, x, y + 2));
+    }
+  }
+  if (coarse === 0) return 0;
+  const t = THRESHOLDS;
+  return clamp01((fine / coarse - t.naturalFineCoarseRatio) / (t.moireFineCoarseRatio - t.naturalFineCoarseRatio));
+}
+
+function specularCue(frame: SpoofFrame): number {
+  const { raster } = frame;
+  const { x0, y0, x1, y1 } = clipBox(raster, frame.box);
+  let glare = 0;
+  let total = 0;
+  for (let y = y0; y < y1; y += 2) {
+    for (let x = x0; x < x1; x += 2) {
+      const i = (y * raster.width + x) * 4;
+      const r = raster.data[i];
+      const g = raster.data[i + 1];
+      const b = raster.data[i + 2];
+      total++;
+      if (luminance(raster, x, y) >= THRESHOLDS.specularLuminance && Math.max(r, g, b) - Math.min(r, g, b) <= THRESHOLDS.specularMaxChroma) {
+        glare++;
+      }
+    }
+  }
+  return total > 0 ? clamp01(glare / total / THRESHOLDS.specularFraction) : 0;
+}
+
+// Desplazamiento (dx, dy) que mejor alinea la región de `a` con `b`, por búsqueda exhaustiva.
+function estimateShift(a: RgbaRaster, b: RgbaRaster, region: { x0: number; y0: number; x1: number; y1: number }, maxShift: number): Point | null {
+  let best: { shift: Point; cost: number } | null = null;
+  for (let dy = -maxShift; dy <= maxShift; dy++) {
+    for (let dx = -maxShift; dx <= maxShift; dx++) {
+      let cost = 0;
+      let count = 0;
+      for (let y = region.y0; y < region.y1; y += 3) {
+        const ty = y + dy;
+        if (ty < 0 || ty >= b.height) continue;
+        for (let x = region.x0; x < region.x1; x += 3) {
+          const tx = x + dx;
+          if (tx < 0 || tx >= b.width) continue;
+          cost += Math.abs(luminance(a, x, y) - luminance(b, tx, ty));
+          count++;
+        }
+      }
+      if (count === 0) continue;
+      const mean = cost / count;
+      if (!best || mean < best.cost) best = { shift: { x: dx, y: dy }, cost: mean };
+    }
+  }
+  return best?.shift ?? null;
+}
+
+function backgroundMotionCue(frames: SpoofFrame[]): number | null {
+  const first = frames[0];
+  const last = frames[frames.length - 1];
+  const faceShift = {
+    x: meanPoint(last.landmarks).x - meanPoint(first.landmarks).x,
+    y: meanPoint(last.landmarks).y - meanPoint(first.landmarks).y,
+  };
+  const faceMotion = Math.hypot(faceShift.x, faceShift.y);
+  if (faceMotion / interocularDistance(first.landmarks) < THRESHOLDS.minMotion) return null;
+
+  // Franjas a ambos lados del rostro, del ancho de medio rostro.
+  const { x0, y0, x1, y1 } = clipBox(first.raster, first.box);
+  const margin = Math.round((x1 - x0) / 2);
+  const regions = [
+    { x0: Math.max(0, x0 - margin), y0, x1: x0, y1 },
+    { x0: x1, y0, x1: Math.min(first.raster.width, x1 + margin), y1 },
+  ].filter(region => region.x1 - region.x0 >= 8);
+  const maxShift = Math.min(THRESHOLDS.maxBackgroundShift, Math.ceil(faceMotion) + 4);
+  const shifts = regions
+    .map(region => estimateShift(first.raster, last.raster, region, maxShift))
+    .filter((shift): shift is Point => shift !== null);
+  if (shifts.length === 0) return null;
+
+  const background = meanPoint(shifts);
+  return clamp01(1 - Math.hypot(background.x - faceShift.x, background.y - faceShift.y) / faceMotion);
+}
+
+export function analyzePresentationAttack(frames: SpoofFrame[]): PresentationAttackReport {
+  const cues: SpoofCues = {
+    planarMotion: frames.length >= 2 ? planarMotionCue(frames) : null,
+    backgroundMotion: frames.length >= 2 ? backgroundMotionCue(frames) : null,
+    moire: Math.max(...frames.map(moireCue)),
+    specular: Math.max(...frames.map(specularCue)),
+  };
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [cue, weight] of Object.entries(CUE_WEIGHTS) as [keyof SpoofCues, number][]) {
+    const value = cues[cue];
+    if (value === null) continue;
+    weighted += value * weight;
+    totalWeight += weight;
+  }
+  return {
+    score: totalWeight > 0 ? weighted / totalWeight : 0,
+    cues,
+    insufficientMotion: cues.planarMotion === null && cues.backgroundMotion === null,
+  };
+}
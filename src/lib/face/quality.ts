@@ -0,0 +1,169 @@
+import type { FaceQualityIssue, FaceQualityMetrics, FaceQualityReport } from '@/types';
+
+// Evaluación de calidad de una captura facial: nitidez, exposición, tamaño del rostro y pose de la
+// cabeza. Trabaja sobre píxeles RGBA sin depender del DOM, de modo que el worker de detección la
+// aplica a cada detección de la vista previa y el servidor la repite sobre la imagen recibida.
+
+export interface RgbaRaster {
+  data: ArrayLike<number>; // RGBA, 4 bytes por píxel (ImageData.data en el navegador, PNG de pngjs en Node)
+  width: number;
+  height: number;
+}
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const QUALITY_THRESHOLDS = {
+  minSharpness: 50, // Varianza del laplaciano sobre la región del rostro
+  minBrightness: 50, // Luminancia media, 0..255
+  maxBrightness: 210,
+  minContrast: 20, // Desviación típica de la luminancia
+  minFaceSizeRatio: 0.2, // Ancho del rostro respecto al ancho del fotograma
+  maxYaw: 25, // Grados
+  maxPitch: 20,
+  maxRoll: 15,
+} as const;
+
+// Lado máximo de la rejilla con la que se muestrea el rostro; acota el coste en la vista previa.
+const SAMPLE_GRID = 96;
+
+// Mensajes para el usuario en el orden en que conviene corregirlos.
+export const QUALITY_ISSUE_MESSAGES: Record<FaceQualityIssue, string> = {
+  face_too_small: 'Acércate a la cámara.',
+  too_dark: 'Hay poca luz. Busca una zona mejor iluminada.',
+  too_bright: 'Hay demasiada luz sobre el rostro.',
+  low_contrast: 'La imagen tiene poco contraste. Mejora la iluminación.',
+  head_turned: 'Mira de frente a la cámara.',
+  head_pitched: 'No inclines la cabeza hacia arriba ni hacia abajo.',
+  head_tilted: 'Mantén la cabeza derecha.',
+  blurry: 'La imagen está borrosa. Quédate quieto.',
+};
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Luminancia de la región del rostro, muestreada en una rejilla de como mucho SAMPLE_GRID² puntos.
+function sampleLuminance(raster: RgbaRaster, box: FaceBox): { values: Float32Array; cols: number; rows: number } {
+  const x0 = Math.max(0, Math.floor(box.x));
+  const y0 = Math.max(0, Math.floor(box.y));
+  const x1 = Math.min(raster.width, Math.ceil(box.x + box.width));
+  const y1 = Math.min(raster.height, Math.ceil(box.y + box.height));
+  const step = Math.max(1, Math.ceil(Math.max(x1 - x0, y1 - y0) / SAMPLE_GRID));
+  const cols = Math.max(0, Math.floor((x1 - x0) / step));
+  const rows = Math.max(0, Math.floor((y1 - y0) / step));
+  const values = new Float32Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = ((y0 + row * step) * raster.width + (x0 + col * step)) * 4;
+      values[row * cols + col] = 0.299 * raster.data[i] + 0.587 * raster.data[i + 1] + 0.114 * raster.data[i + 2];
+    }
+  }
+  return { values, cols, rows };
+}
+
+function laplacianVariance(values: Float32Array, cols: number, rows: number): number {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let row = 1; row < rows - 1; row++) {
+    for (let col = 1; col < cols - 1; col++) {
+      const i = row * cols + col;
+      const laplacian = values[i - cols] + values[i + cols] + values[i - 1] + values[i + 1] - 4 * values[i];
+      sum += laplacian;
+      sumSq += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+}
+
+function meanPoint(points: Point[]): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+// Pose aproximada a partir de los 68 landmarks (esquema iBUG). No es una estimación 3D: basta para
+// distinguir un rostro de frente de uno girado o inclinado.
+export function estimateHeadPose(landmarks: Point[]): { yaw: number; pitch: number; roll: number } {
+  const leftEye = meanPoint(landmarks.slice(36, 42));
+  const rightEye = meanPoint(landmarks.slice(42, 48));
+  const roll = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+
+  // Se deshace el giro en el plano para medir yaw y pitch sobre ejes alineados con los ojos.
+  const cos = Math.cos(-roll);
+  const sin = Math.sin(-roll);
+  const align = (p: Point): Point => ({ x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos });
+  const noseTip = align(landmarks[30]);
+  const jawLeft = align(landmarks[0]);
+  const jawRight = align(landmarks[16]);
+  const chin = align(landmarks[8]);
+  const eyeLine = align(meanPoint([leftEye, rightEye]));
+
+  // Yaw: asimetría de la distancia de la punta de la nariz a cada lado de la mandíbula.
+  const toLeft = noseTip.x - jawLeft.x;
+  const toRight = jawRight.x - noseTip.x;
+  const yaw = Math.asin(Math.max(-1, Math.min(1, (toLeft - toRight) / (toLeft + toRight || 1))));
+
+  // Pitch: posición vertical de la nariz entre la línea de los ojos y el mentón. De frente la
+  // proporción ronda 0.45; se escala de forma que ±0.15 equivalga a unos ±20°.
+  const noseRatio = (noseTip.y - eyeLine.y) / (chin.y - eyeLine.y || 1);
+  const pitch = (noseRatio - 0.45) * 133;
+
+  return { yaw: toDegrees(yaw), pitch, roll: toDegrees(roll) };
+}
+
+export function assessFaceQuality(raster: RgbaRaster, box: FaceBox, landmarks: Point[]): FaceQualityReport {
+  const { values, cols, rows } = sampleLuminance(raster, box);
+  let sum = 0;
+  for (const value of values) sum += value;
+  const brightness = values.length > 0 ? sum / values.length : 0;
+  let variance = 0;
+  for (const value of values) variance += (value - brightness) ** 2;
+  const contrast = values.length > 0 ? Math.sqrt(variance / values.length) : 0;
+  const pose = estimateHeadPose(landmarks);
+
+  const metrics: FaceQualityMetrics = {
+    sharpness: laplacianVariance(values, cols, rows),
+    brightness,
+    contrast,
+    faceSizeRatio: box.width / raster.width,
+    ...pose,
+  };
+
+  const t = QUALITY_THRESHOLDS;
+  const issues: FaceQualityIssue[] = [];
+  if (metrics.faceSizeRatio < t.minFaceSizeRatio) issues.push('face_too_small');
+  if (metrics.brightness < t.minBrightness) issues.push('too_dark');
+  if (metrics.brightness > t.maxBrightness) issues.push('too_bright');
+  if (metrics.contrast < t.minContrast) issues.push('low_contrast');
+  if (Math.abs(metrics.yaw) > t.maxYaw) issues.push('head_turned');
+  if (Math.abs(metrics.pitch) > t.maxPitch) issues.push('head_pitched');
+  if (Math.abs(metrics.roll) > t.maxRoll) issues.push('head_tilted');
+  if (metrics.sharpness < t.minSharpness) issues.push('blurry');
+
+  // Cada criterio aporta entre 0 y 1 (1 = holgadamente dentro del umbral); la puntuación es la media.
+  const partialScores = [
+    clamp01(metrics.sharpness / (2 * t.minSharpness)),
+    clamp01(1 - Math.abs(metrics.brightness - 128) / 128),
+    clamp01(metrics.contrast / (2 * t.minContrast)),
+    clamp01(metrics.faceSizeRatio / (2 * t.minFaceSizeRatio)),
+    clamp01(1 - Math.max(Math.abs(metrics.yaw) / t.maxYaw, Math.abs(metrics.pitch) / t.maxPitch, Math.abs(metrics.roll) / t.maxRoll) / 2),
+  ];
+  const score = partialScores.reduce((a, b) => a + b, 0) / partialScores.length;
+
+  return { score, passed: issues.length === 0, issues, metrics };
+}
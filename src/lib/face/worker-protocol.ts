@@ -0,0 +1,122 @@
+import type { DetectorSettings, FaceQualityReport, TfBackend, TfBackendPreference } from '@/types';
+import type { FaceBox, Point } from '@/lib/face/quality';
+
+// Mensajes entre FaceCapture y el worker de detección (src/workers/face-detection.worker.ts). Cada
+// petición lleva un `id` y el worker responde con ese mismo `id`: avisos de progreso y, al final,
+// un resultado o un error.
+
+// Los pesos se sirven desde `public/models`.
+export const MODEL_BASE_URL = '/models';
+
+// Fotograma de la cámara; el worker lo dibuja en su OffscreenCanvas y lo cierra.
+export type WorkerFrame = ImageBitmap | VideoFrame;
+
+export interface LoadModelsRequest {
+  type: 'load';
+  detector: DetectorSettings;
+  withExpressions: boolean;
+}
+
+export interface DetectFacesRequest {
+  type: 'detect';
+  frame: WorkerFrame;
+  detector: DetectorSettings;
+  // Sin landmarks solo se detecta (mientras se cargan los modelos de reconocimiento).
+  withLandmarks: boolean;
+  withExpressions: boolean;
+  // Pide el recorte del rostro elegido, para conservar el fotograma como evidencia de la prueba de
+  // vida; null si este fotograma no se va a conservar.
+  crop: CropRequest | null;
+}
+
+export interface CropRequest {
+  // Región del recorte anterior, en coordenadas del fotograma. Se reutiliza mientras contenga al
+  // rostro, para que los fotogramas de una secuencia compartan coordenadas.
+  region: FaceBox | null;
+}
+
+export interface DescribeFacesRequest {
+  type: 'describe';
+  frame: WorkerFrame;
+  detector: DetectorSettings;
+  // Las capturas se guardan en espejo, como se ven en la vista previa.
+  mirror: boolean;
+}
+
+export type FaceWorkerRequest = LoadModelsRequest | DetectFacesRequest | DescribeFacesRequest;
+
+export type FaceWorkerMessage = FaceWorkerRequest & { id: number };
+
+export interface WorkerFace {
+  box: FaceBox;
+  score: number;
+  landmarks: Point[] | null;
+  // Solo la expresión que usan los retos (sonrisa).
+  happy: number | null;
+  // Evaluada en el worker sobre el fotograma completo; null sin landmarks.
+  quality: FaceQualityReport | null;
+}
+
+export interface DescribedFace {
+  box: FaceBox;
+  score: number;
+  landmarks: Point[];
+  descriptor: number[];
+  quality: FaceQualityReport | null;
+}
+
+// Recorte del fotograma alrededor del rostro elegido, con margen para el fondo que analiza el
+// detector de ataques de presentación.
+export interface FaceCrop {
+  image: ImageData;
+  region: FaceBox; // Posición del recorte en el fotograma
+}
+
+export interface FrameDetection {
+  width: number;
+  height: number;
+  faces: WorkerFace[];
+  // Sin espejo, tal como se detectó; null si no se pidió o no hay un rostro elegido.
+  crop: FaceCrop | null;
+}
+
+export interface FrameDescription {
+  width: number;
+  height: number;
+  faces: DescribedFace[];
+  // PNG del fotograma, para guardarlo y enviarlo al servidor.
+  imageUri: string;
+}
+
+// Backend de TensorFlow.js elegido por el worker al cargar los modelos.
+export interface BackendSelection {
+  backend: TfBackend;
+  preference: TfBackendPreference;
+  // El backend fijado por el administrador no pudo iniciarse y se eligió otro automáticamente.
+  pinnedUnavailable: boolean;
+  // Milisegundos por pasada de la prueba inicial, por backend probado; null si falló.
+  benchmarkMs: Partial<Record<TfBackend, number | null>>;
+}
+
+export interface FaceWorkerResults {
+  load: BackendSelection;
+  detect: FrameDetection;
+  describe: FrameDescription;
+}
+
+// Progreso de la carga de una red. El worker lo difunde sin `id`: varias peticiones pueden estar
+// esperando el mismo modelo.
+export interface ModelLoadProgress {
+  modelName: string;
+  status: 'downloading' | 'ready' | 'failed';
+  loadedBytes: number;
+  totalBytes: number;
+  fromCache: boolean; // Todos los fragmentos salieron de la Cache API
+}
+
+export type FaceWorkerResponse =
+  | { type: 'model_progress'; progress: ModelLoadProgress }
+  | { id: number; type: 'model_loaded'; modelName: string }
+  | { id: number; type: 'result'; result: FaceWorkerResults[FaceWorkerRequest['type']] }
+  // `integrityFile` solo viene cuando un archivo de `public/models` no superó la verificación.
+  | { id: number; type: 'error'; message: string; integrityFile?: string | null };
@@ -0,0 +1,18 @@
+import type { PublicPendingSignup, UserProfile } from '@/types';
+import { apiRequest } from '@/lib/api-client';
+
+// Cola de registros retenidos por coincidir con el rostro de otra cuenta. Solo para administradores.
+
+export async function fetchPendingSignups(): Promise<PublicPendingSignup[]> {
+  const { pendingSignups } = await apiRequest<{ pendingSignups: PublicPendingSignup[] }>('/api/pending-signups');
+  return pendingSignups;
+}
+
+export async function approvePendingSignup(pendingSignupId: string): Promise<UserProfile> {
+  const { user } = await apiRequest<{ user: UserProfile }>(`/api/pending-signups/${encodeURIComponent(pendingSignupId)}/approve`, { method: 'POST' });
+  return user;
+}
+
+export async function rejectPendingSignup(pendingSignupId: string): Promise<void> {
+  await apiRequest<null>(`/api/pending-signups/${encodeURIComponent(pendingSignupId)}`, { method: 'DELETE' });
+}
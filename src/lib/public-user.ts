@@ -0,0 +1,29 @@
+import type { PublicUser, User, UserProfile } from '@/types';
+
+// Elimina los descriptores faciales de un usuario antes de enviarlo (o guardarlo) en el navegador.
+// Los campos de cada muestra se copian explícitamente para que uno nuevo no se filtre por descuido.
+// Conserva las imágenes: solo para el propio usuario o un administrador.
+export function toUserProfile(user: User | UserProfile): UserProfile {
+  return {
+    ...user,
+    faceSamples: user.faceSamples.map(({ id, descriptorVersion, imageUri, capturedAt, source, quality, qualityMetrics, detectionScore }) => ({
+      id,
+      descriptorVersion: descriptorVersion ?? null,
+      imageUri,
+      capturedAt,
+      source,
+      quality,
+      qualityMetrics,
+      detectionScore,
+    })),
+  };
+}
+
+// Como toUserProfile pero sin ninguna imagen facial: lo que puede recibir cualquiera.
+export function toPublicUser(user: User | UserProfile): PublicUser {
+  const { faceImageUri: _faceImageUri, enhancedFaceImageUri: _enhancedFaceImageUri, faceSamples, ...profile } = toUserProfile(user);
+  return {
+    ...profile,
+    faceSamples: faceSamples.map(({ imageUri: _imageUri, ...sample }) => sample),
+  };
+}
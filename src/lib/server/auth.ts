@@ -0,0 +1,32 @@
+import type { User } from '@/types';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { jsonError } from '@/lib/server/http';
+import { getSessionUserId } from '@/lib/server/session';
+
+type AuthResult = { user: User; error?: undefined } | { user?: undefined; error: ReturnType<typeof jsonError> };
+
+// Usuario de la sesión firmada de la petición (ver session.ts), o null. Si la cuenta se borró
+// después de iniciar sesión, la sesión deja de valer.
+export async function getSessionUser(request: Request): Promise<User | null> {
+  const userId = await getSessionUserId(request);
+  return userId ? getUserRepository().findById(userId) : null;
+}
+
+// Verifica que la petición venga de un usuario con sesión iniciada.
+export async function requireUser(request: Request): Promise<AuthResult> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return { error: jsonError('Debes iniciar sesión para realizar esta acción.', 401) };
+  }
+  return { user };
+}
+
+// Verifica que quien hace la petición sea un administrador con sesión iniciada.
+export async function requireAdmin(request: Request): Promise<AuthResult> {
+  const { user, error } = await requireUser(request);
+  if (error) return { error };
+  if (!user.isAdmin) {
+    return { error: jsonError('Solo un administrador puede realizar esta acción.', 403) };
+  }
+  return { user };
+}
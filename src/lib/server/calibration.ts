@@ -0,0 +1,117 @@
+import * as faceapi from 'face-api.js';
+import type { CalibrationOperatingPoint, CalibrationReport, DescriptorVersion, DistanceCalibration, MatchObservation, RecognitionSettings, User } from '@/types';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { getMatchObservationRepository } from '@/lib/server/match-observation-repository';
+import { rankCandidates } from '@/lib/server/face-matching';
+import type { FaceQuery } from '@/lib/server/face-matching';
+import { getSettings } from '@/lib/server/settings-repository';
+import { compatibleSamples, getDescriptorVersion, isSameDescriptorVersion } from '@/lib/face/descriptor-version';
+import {
+  falseMatchProbability,
+  falseRejectProbability,
+  fitDistanceCalibration,
+  recommendThreshold,
+} from '@/lib/face/calibration';
+
+// La calibración recorre todos los pares de muestras de las galerías; se reutiliza durante este
+// tiempo en lugar de recalcularla en cada inicio de sesión.
+const CALIBRATION_TTL_MS = 5 * 60_000;
+const TABLE_DISTANCES = [0.3, 0.35, 0.4, 0.45, 0.5, 0.55, 0.6, 0.65, 0.7];
+
+interface CalibrationSample {
+  genuine: number[];
+  impostor: number[];
+  sources: CalibrationReport['sources'];
+}
+
+let cached: { calibration: DistanceCalibration; sources: CalibrationSample['sources']; computedAt: number } | null = null;
+
+// Pares de las galerías (muestras de un mismo usuario frente a las de usuarios distintos) más las
+// distancias de los inicios de sesión aceptados. Estas últimas solo incluyen accesos que superaron
+// el umbral vigente, así que por sí solas subestimarían las distancias genuinas altas. Solo se usan
+// descriptores de la versión actual del pipeline: los de otra versión no son comparables.
+function collectDistances(users: User[], observations: MatchObservation[], version: DescriptorVersion): CalibrationSample {
+  const samples = users.flatMap(user => compatibleSamples(user.faceSamples, version).map(sample => ({ userId: user.id, descriptor: sample.descriptor })));
+  const genuine: number[] = [];
+  const impostor: number[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    for (let j = i + 1; j < samples.length; j++) {
+      const distance = faceapi.euclideanDistance(samples[i].descriptor, samples[j].descriptor);
+      (samples[i].userId === samples[j].userId ? genuine : impostor).push(distance);
+    }
+  }
+  const current = observations.filter(observation => isSameDescriptorVersion(observation.descriptorVersion, version));
+  const sources = { enrollmentGenuine: genuine.length, enrollmentImpostor: impostor.length, loginObservations: current.length };
+  for (const observation of current) {
+    genuine.push(observation.genuine);
+    impostor.push(...observation.impostors);
+  }
+  return { genuine, impostor, sources };
+}
+
+async function loadCalibration(): Promise<NonNullable<typeof cached>> {
+  if (cached && Date.now() - cached.computedAt < CALIBRATION_TTL_MS) return cached;
+  const [users, observations, { detection }] = await Promise.all([
+    getUserRepository().list(),
+    getMatchObservationRepository().list(),
+    getSettings(),
+  ]);
+  const sample = collectDistances(users, observations, getDescriptorVersion(detection));
+  cached = { calibration: fitDistanceCalibration(sample.genuine, sample.impostor), sources: sample.sources, computedAt: Date.now() };
+  return cached;
+}
+
+// Calibración vigente, o null mientras no haya pares suficientes para estimar probabilidades.
+export async function getDistanceCalibration(): Promise<DistanceCalibration | null> {
+  const { calibration } = await loadCalibration();
+  return calibration.reliable ? calibration : null;
+}
+
+// Guarda las distancias de un inicio de sesión aceptado como `userId`: la de su galería y las de
+// los demás usuarios de `users` (en verificación solo se pasa el propio usuario).
+export async function recordMatchObservation(mode: MatchObservation['mode'], users: User[], query: FaceQuery, userId: string): Promise<void> {
+  const ranked = rankCandidates(users, query);
+  const genuine = ranked.find(candidate => candidate.userId === userId);
+  if (!genuine) return;
+  await getMatchObservationRepository().record({
+    recordedAt: new Date().toISOString(),
+    mode,
+    descriptorVersion: query.descriptorVersion,
+    genuine: genuine.distance,
+    impostors: ranked.filter(candidate => candidate.userId !== userId).map(candidate => candidate.distance),
+  });
+}
+
+// Descarta la calibración en memoria, p. ej. al restablecer la base de datos de usuarios.
+export function invalidateCalibration(): void {
+  cached = null;
+}
+
+function operatingPoint(calibration: DistanceCalibration, threshold: number): CalibrationOperatingPoint {
+  return {
+    threshold,
+    far: calibration.reliable ? falseMatchProbability(calibration, threshold) : null,
+    frr: calibration.reliable ? falseRejectProbability(calibration, threshold) : null,
+  };
+}
+
+export async function buildCalibrationReport(targetFar: number, recognition: RecognitionSettings): Promise<CalibrationReport> {
+  // El administrador siempre ve la calibración con los datos actuales.
+  invalidateCalibration();
+  const { calibration, sources } = await loadCalibration();
+  const recommendedThreshold = calibration.reliable ? recommendThreshold(calibration, targetFar) : null;
+  return {
+    calibration,
+    sources,
+    targetFar,
+    recommendedThreshold,
+    expectedFrr: recommendedThreshold !== null ? falseRejectProbability(calibration, recommendedThreshold) : null,
+    current: {
+      identification: operatingPoint(calibration, recognition.matchThreshold),
+      verification: operatingPoint(calibration, recognition.verificationThreshold),
+    },
+    table: calibration.reliable
+      ? TABLE_DISTANCES.map(distance => ({ distance, falseMatchProbability: falseMatchProbability(calibration, distance) }))
+      : [],
+  };
+}
@@ -0,0 +1,91 @@
+import type { DescriptorMigrationReport, DescriptorMigrationResult, DescriptorVersion, DetectorSettings, FaceSample, User } from '@/types';
+import { getUserRepository } from '@/lib/server/user-repository';
+import { getSettings } from '@/lib/server/settings-repository';
+import { computeFaceDescriptor, FacePipelineError } from '@/lib/server/face-pipeline';
+import { getDescriptorVersion, isSameDescriptorVersion } from '@/lib/face/descriptor-version';
+import { invalidateCalibration } from '@/lib/server/calibration';
+
+// Migración de las galerías a la versión actual del pipeline de descriptores (ver
+// src/lib/face/descriptor-version.ts). Cada muestra desactualizada se recalcula a partir de la
+// imagen que se guardó al enrolarla; las que no tienen imagen o en las que ya no se detecta un
+// rostro se conservan sin cambios y, si un usuario se queda sin ninguna muestra vigente, debe
+// volver a registrar su rostro.
+
+function isOutdated(sample: FaceSample, version: DescriptorVersion): boolean {
+  return !isSameDescriptorVersion(sample.descriptorVersion, version);
+}
+
+function buildReport(users: User[], version: DescriptorVersion): DescriptorMigrationReport {
+  const samples = users.flatMap(user => user.faceSamples);
+  return {
+    currentVersion: version,
+    totalSamples: samples.length,
+    outdatedSamples: samples.filter(sample => isOutdated(sample, version)).length,
+    reenrollmentRequired: users
+      .filter(user => user.faceSamples.length > 0 && user.faceSamples.every(sample => isOutdated(sample, version)))
+      .map(({ id, name, email }) => ({ userId: id, name, email })),
+  };
+}
+
+export async function getDescriptorMigrationReport(): Promise<DescriptorMigrationReport> {
+  const [users, { detection }] = await Promise.all([getUserRepository().list(), getSettings()]);
+  return buildReport(users, getDescriptorVersion(detection));
+}
+
+// Recalcula el descriptor de una muestra con el pipeline actual, o null si no es posible. En las
+// muestras de una ráfaga solo se guardó el mejor fotograma, así que el nuevo descriptor es el de
+// ese fotograma y no la media de la ráfaga original.
+async function rederiveSample(sample: FaceSample, detection: DetectorSettings): Promise<FaceSample | null> {
+  if (!sample.imageUri) return null;
+  try {
+    const computed = await computeFaceDescriptor(sample.imageUri, detection);
+    if (!computed) return null;
+    return {
+      ...sample,
+      descriptor: computed.descriptor,
+      descriptorVersion: computed.descriptorVersion,
+      detectionScore: computed.detectionScore,
+      quality: computed.quality.score,
+      qualityMetrics: computed.quality.metrics,
+    };
+  } catch (error) {
+    // Un error de carga de modelos afecta a todas las muestras: se interrumpe la migración.
+    if (error instanceof FacePipelineError && error.status !== 503) {
+      console.warn(`Migración de descriptores: muestra ${sample.id} no recalculada (${error.message}).`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function migrateDescriptors(): Promise<DescriptorMigrationResult> {
+  const repository = getUserRepository();
+  const { detection } = await getSettings();
+  const version = getDescriptorVersion(detection);
+  let rederived = 0;
+  let unrecoverable = 0;
+
+  for (const user of await repository.list()) {
+    const updates = new Map<string, FaceSample>();
+    for (const sample of user.faceSamples.filter(s => isOutdated(s, version))) {
+      const migrated = await rederiveSample(sample, detection);
+      if (migrated) {
+        updates.set(sample.id, migrated);
+      } else {
+        unrecoverable++;
+      }
+    }
+    if (updates.size === 0) continue;
+
+    // Se aplica sobre la galería vigente: recalcular lleva tiempo y un administrador pudo cambiarla.
+    await repository.updateSamples(user.id, samples => {
+      rederived += samples.filter(sample => updates.has(sample.id)).length;
+      return samples.map(sample => updates.get(sample.id) ?? sample);
+    });
+  }
+
+  invalidateCalibration();
+  const report = buildReport(await repository.list(), version);
+  console.log(`Migración de descriptores: ${rederived} muestras recalculadas, ${unrecoverable} sin imagen o sin rostro, ${report.reenrollmentRequired.length} usuarios deben volver a registrarse.`);
+  return { ...report, rederived, unrecoverable };
+}
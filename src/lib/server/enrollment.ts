@@ -0,0 +1,30 @@
+import { randomUUID } from 'crypto';
+import type { FaceSample, PendingSignup, PublicPendingSignup, User } from '@/types';
+import { CURRENT_USER_SCHEMA_VERSION } from '@/lib/user-schema';
+
+export interface NewUserInput {
+  name: string;
+  email: string;
+  faceImageUri: string;
+  enhancedFaceImageUri: string;
+  faceSample: FaceSample;
+}
+
+// Registro de un usuario nuevo, ya sea directo desde el formulario o al aprobar un registro retenido.
+export function buildNewUser(input: NewUserInput, isAdmin: boolean): User {
+  return {
+    schemaVersion: CURRENT_USER_SCHEMA_VERSION,
+    id: randomUUID(),
+    name: input.name,
+    email: input.email,
+    faceImageUri: input.faceImageUri,
+    enhancedFaceImageUri: input.enhancedFaceImageUri,
+    faceSamples: [input.faceSample],
+    isAdmin,
+  };
+}
+
+// Como toPublicUser: el descriptor de la muestra nunca sale del servidor.
+export function toPublicPendingSignup({ faceSample: _faceSample, ...pendingSignup }: PendingSignup): PublicPendingSignup {
+  return pendingSignup;
+}
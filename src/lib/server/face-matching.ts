@@ -0,0 +1,151 @@
+import * as faceapi from 'face-api.js';
+import type {
+  DescriptorVersion,
+  DistanceCalibration,
+  FaceCollision,
+  FaceIdentificationResult,
+  FaceMatchCandidate,
+  FaceVerificationResult,
+  User,
+} from '@/types';
+import { falseMatchProbability } from '@/lib/face/calibration';
+import { compatibleSamples } from '@/lib/face/descriptor-version';
+
+// Valores iniciales de `recognition.matchThreshold` y `recognition.verificationThreshold`; el
+// administrador los ajusta con la calibración. La verificación es más estricta: en 1:1 no hay otros
+// candidatos con los que desempatar, así que un parecido debe quedar fuera por distancia.
+export const DEFAULT_FACE_MATCH_THRESHOLD = 0.55;
+export const DEFAULT_FACE_VERIFICATION_THRESHOLD = 0.45;
+
+// Número de candidatos que se registran en el servidor con cada identificación.
+const TOP_K_CANDIDATES = 3;
+
+export interface VerifyFaceOptions {
+  threshold: number;
+  calibration?: DistanceCalibration | null;
+}
+
+export interface IdentifyFaceOptions {
+  threshold: number;
+  ambiguityMargin: number;
+  // Segundo factor para resolver un resultado ambiguo: el correo que el usuario confirma.
+  claimedEmail?: string;
+  // Sin calibración fiable, los candidatos llevan `falseMatchProbability: null`.
+  calibration?: DistanceCalibration | null;
+}
+
+// Descriptor que se busca en las galerías, con la versión del pipeline que lo calculó.
+export interface FaceQuery {
+  descriptor: number[];
+  descriptorVersion: DescriptorVersion;
+}
+
+export interface RankedCandidate {
+  userId: string;
+  distance: number;
+}
+
+// Resultados completos, solo para el servidor: al navegador se envía toMatchResponse(resultado).
+export interface FaceIdentification extends FaceIdentificationResult {
+  candidates: FaceMatchCandidate[]; // Mejores candidatos, de menor a mayor distancia
+  threshold: number;
+  ambiguityMargin: number;
+}
+
+export interface FaceVerification extends Omit<FaceVerificationResult, 'userId'> {
+  userId: string;
+  distance: number; // Distancia a la muestra más cercana de la galería del usuario
+  falseMatchProbability: number | null;
+  threshold: number;
+}
+
+function withProbability(candidate: RankedCandidate, calibration: DistanceCalibration | null | undefined): FaceMatchCandidate {
+  return { ...candidate, falseMatchProbability: calibration ? falseMatchProbability(calibration, candidate.distance) : null };
+}
+
+// Distancia de cada usuario a su muestra más cercana, ordenada de menor a mayor. Cada muestra de la
+// galería se compara por separado (como una entrada propia de FaceMatcher): promediarlas haría que
+// una muestra con otras gafas o luz penalizara a las demás. Solo cuentan las muestras de la misma
+// versión que la consulta: un usuario sin ninguna no es candidato (debe volver a enrolarse).
+export function rankCandidates(users: User[], { descriptor, descriptorVersion }: FaceQuery): RankedCandidate[] {
+  const query = new Float32Array(descriptor);
+  return users
+    .map(user => ({ userId: user.id, samples: compatibleSamples(user.faceSamples, descriptorVersion) }))
+    .filter(({ samples }) => samples.length > 0)
+    .map(({ userId, samples }) => ({
+      userId,
+      distance: Math.min(...samples.map(sample => faceapi.euclideanDistance(query, sample.descriptor))),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+// Usuarios con al menos una muestra comparable con descriptores de `version`.
+export function hasCompatibleSamples(user: User, version: DescriptorVersion): boolean {
+  return compatibleSamples(user.faceSamples, version).length > 0;
+}
+
+// Identificación 1:N contra las galerías de todos los usuarios. Se ejecuta solo en el servidor
+// para que los descriptores de los usuarios nunca se envíen al navegador. Además del umbral, exige
+// que el mejor candidato se separe del segundo al menos `ambiguityMargin` (hermanos, parecidos);
+// si no, el resultado es ambiguo y solo se acepta confirmando el correo de uno de los candidatos.
+export function identifyFace(users: User[], query: FaceQuery, options: IdentifyFaceOptions): FaceIdentification {
+  const ranked = rankCandidates(users, query);
+  const { threshold } = options;
+  const candidates = ranked.slice(0, TOP_K_CANDIDATES).map(candidate => withProbability(candidate, options.calibration));
+  const base = { candidates, threshold, ambiguityMargin: options.ambiguityMargin };
+
+  const [best, second] = ranked;
+  if (!best || best.distance >= threshold) {
+    return { ...base, decision: 'no_match', reason: 'above_threshold', userId: null };
+  }
+
+  if (!second || second.distance - best.distance >= options.ambiguityMargin) {
+    return { ...base, decision: 'match', reason: 'matched', userId: best.userId };
+  }
+
+  if (options.claimedEmail) {
+    const normalized = options.claimedEmail.trim().toLowerCase();
+    const claimedUser = users.find(user => user.email.trim().toLowerCase() === normalized);
+    // Solo vale un candidato dentro de la ventana ambigua, no cualquier usuario bajo el umbral.
+    const claimedCandidate = claimedUser && ranked.find(c =>
+      c.userId === claimedUser.id &&
+      c.distance < threshold &&
+      c.distance - best.distance < options.ambiguityMargin
+    );
+    if (claimedCandidate) {
+      return { ...base, decision: 'match', reason: 'second_factor_verified', userId: claimedCandidate.userId };
+    }
+    return { ...base, decision: 'no_match', reason: 'second_factor_mismatch', userId: null };
+  }
+
+  return { ...base, decision: 'ambiguous', reason: 'ambiguous_margin', userId: null };
+}
+
+// Verificación 1:1 contra la galería del usuario que dice ser quien inicia sesión.
+export function verifyFace(user: User, query: FaceQuery, { threshold, calibration }: VerifyFaceOptions): FaceVerification {
+  const [candidate] = rankCandidates([user], query);
+  const distance = candidate ? candidate.distance : Infinity;
+  const verified = distance < threshold;
+  return {
+    decision: verified ? 'match' : 'no_match',
+    reason: verified ? 'verified' : 'above_threshold',
+    userId: user.id,
+    distance,
+    falseMatchProbability: calibration && candidate ? falseMatchProbability(calibration, distance) : null,
+    threshold,
+  };
+}
+
+// Decisión y motivo para el navegador; el id del usuario solo si se aceptó el rostro.
+export function toMatchResponse(result: FaceIdentification): FaceIdentificationResult;
+export function toMatchResponse(result: FaceVerification): FaceVerificationResult;
+export function toMatchResponse({ decision, reason, userId }: FaceIdentification | FaceVerification): FaceIdentificationResult | FaceVerificationResult {
+  return { decision, reason, userId: decision === 'match' ? userId : null } as FaceIdentificationResult | FaceVerificationResult;
+}
+
+// Cuenta existente cuyo rostro coincide con el de un registro nuevo, usando el mismo umbral que la
+// identificación: si el nuevo usuario pudiera iniciar sesión como otro, es la misma persona.
+export function findFaceCollision(users: User[], query: FaceQuery, threshold: number): FaceCollision | null {
+  const [best] = rankCandidates(users, query);
+  return best && best.distance < threshold ? best : null;
+}
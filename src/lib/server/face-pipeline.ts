@@ -0,0 +1,192 @@
+import * as faceapi from 'face-api.js';
+import { PNG } from 'pngjs';
+import type { DescriptorVersion, DetectorSettings, FaceQualityReport } from '@/types';
+import { createDetectorOptions, EXPRESSION_MODEL_NAME, getRequiredModels } from '@/lib/face/detector';
+import { assessFaceQuality } from '@/lib/face/quality';
+import { MULTIPLE_FACE_MESSAGES, selectFace } from '@/lib/face/face-selection';
+import { getDescriptorVersion } from '@/lib/face/descriptor-version';
+import type { FaceBox, Point } from '@/lib/face/quality';
+import { getSettings } from '@/lib/server/settings-repository';
+import { loadIntegrityManifest, readVerifiedModelFile } from '@/lib/server/model-integrity';
+import { ModelIntegrityError } from '@/lib/face/model-integrity';
+
+// Réplica en Node del pipeline de FaceCapture (detector configurado + landmarks 68 + reconocimiento),
+// ejecutada sobre el backend CPU de tfjs con los mismos pesos de `public/models`. Permite al
+// servidor calcular él mismo el descriptor de la imagen enviada en lugar de confiar en el cliente.
+
+// Distancia euclídea máxima aceptada entre el descriptor del cliente y el calculado en el servidor
+// para la misma imagen. Las diferencias legítimas (WebGL frente a CPU) son de centésimas; un
+// descriptor copiado de otra persona queda muy por encima (~0.5 o más).
+export const DESCRIPTOR_AGREEMENT_TOLERANCE = 0.15;
+
+// Límites de las imágenes que acepta el servidor. Cada una recorre el pipeline completo en el
+// backend CPU, y varias rutas que las reciben no exigen sesión. Dan holgura sobre la resolución de
+// captura por defecto (640×480) sin admitir imágenes que nadie enviaría desde una cámara.
+export const MAX_FACE_IMAGE_URI_LENGTH = 4_000_000; // ~3 MB de PNG en base64
+export const MAX_FACE_IMAGE_PIXELS = 1920 * 1080;
+
+export class FacePipelineError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'FacePipelineError';
+  }
+}
+
+interface WeightsManifestGroup {
+  paths: string[];
+  weights: Parameters<typeof faceapi.tf.io.decodeWeights>[1];
+}
+
+// Equivalente a `net.loadFromUri('/models')` pero leyendo el manifiesto y los fragmentos del disco,
+// verificados contra `integrity.json`.
+async function loadNetFromDisk(net: faceapi.NeuralNetwork<unknown>, modelName: string): Promise<void> {
+  const integrity = await loadIntegrityManifest();
+  const manifestFile = await readVerifiedModelFile(integrity, `${modelName}-weights_manifest.json`);
+  const manifest: WeightsManifestGroup[] = JSON.parse(manifestFile.toString('utf8'));
+  const weightMap: faceapi.tf.NamedTensorMap = {};
+  for (const group of manifest) {
+    const shards = await Promise.all(group.paths.map(shard => readVerifiedModelFile(integrity, shard)));
+    const data = Buffer.concat(shards);
+    const arrayBuffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    Object.assign(weightMap, faceapi.tf.io.decodeWeights(arrayBuffer, group.weights));
+  }
+  net.loadFromWeightMap(weightMap);
+}
+
+let backendPromise: Promise<void> | null = null;
+// Un modelo por nombre de pesos: cambiar de detector en la configuración solo carga el nuevo.
+const modelPromises = new Map<string, Promise<void>>();
+
+function ensureNetLoaded(net: faceapi.NeuralNetwork<unknown>, modelName: string): Promise<void> {
+  let promise = modelPromises.get(modelName);
+  if (!promise) {
+    if (!backendPromise) {
+      backendPromise = faceapi.tf.setBackend('cpu').then(() => faceapi.tf.ready());
+    }
+    promise = backendPromise
+      .then(() => loadNetFromDisk(net, modelName))
+      .then(() => console.log(`FacePipeline: ${modelName} loaded on the tfjs CPU backend.`))
+      .catch(error => {
+        // Permite reintentar en la siguiente petición (p. ej. si faltaba un fragmento en public/models).
+        modelPromises.delete(modelName);
+        throw error;
+      });
+    modelPromises.set(modelName, promise);
+  }
+  return promise;
+}
+
+async function ensureModelsLoaded(detector: DetectorSettings): Promise<void> {
+  await Promise.all(getRequiredModels(detector).map(({ net, modelName }) => ensureNetLoaded(net, modelName)));
+}
+
+// Decodifica un data URI PNG en píxeles RGBA. Lanza FacePipelineError (400) si no es un PNG válido
+// y (413) si sus dimensiones superan MAX_FACE_IMAGE_PIXELS, comprobadas en la cabecera antes de
+// descomprimir nada.
+export function decodePngDataUri(dataUri: string): PNG {
+  const match = /^data:image\/png;base64,(.+)$/.exec(dataUri);
+  if (!match) {
+    throw new FacePipelineError('Solo se aceptan imágenes PNG en base64.', 400);
+  }
+  const buffer = Buffer.from(match[1], 'base64');
+  // Firma (8 bytes), longitud y tipo del primer bloque (IHDR) y, a continuación, ancho y alto.
+  if (buffer.length >= 24 && buffer.toString('ascii', 12, 16) === 'IHDR'
+    && buffer.readUInt32BE(16) * buffer.readUInt32BE(20) > MAX_FACE_IMAGE_PIXELS) {
+    throw new FacePipelineError('La imagen enviada es demasiado grande.', 413);
+  }
+  try {
+    return PNG.sync.read(buffer);
+  } catch {
+    throw new FacePipelineError('La imagen enviada no es un PNG válido.', 400);
+  }
+}
+
+function toInputTensor(png: PNG): faceapi.tf.Tensor3D {
+  // RGBA -> RGB, el formato que espera face-api.js para un tensor de entrada.
+  const rgb = new Uint8Array(png.width * png.height * 3);
+  for (let src = 0, dst = 0; src < png.data.length; src += 4, dst += 3) {
+    rgb[dst] = png.data[src];
+    rgb[dst + 1] = png.data[src + 1];
+    rgb[dst + 2] = png.data[src + 2];
+  }
+  return faceapi.tf.tensor3d(rgb, [png.height, png.width, 3], 'int32');
+}
+
+export interface ServerFaceDescriptor {
+  descriptor: number[];
+  descriptorVersion: DescriptorVersion; // Modelos y detector con los que se calculó
+  detectionScore: number;
+  quality: FaceQualityReport; // Misma evaluación que hace FaceCapture en la vista previa
+  landmarks: Point[]; // Los 68 landmarks, en píxeles de la imagen
+  box: FaceBox;
+  expressions?: Record<string, number>; // Solo con `withExpressions`: probabilidad de cada expresión
+}
+
+// Detecta el rostro en la imagen y calcula su descriptor. Devuelve null si no se detecta rostro; con
+// varios, aplica la política configurada (y lanza FacePipelineError si es 'reject').
+// Sin `detector`, usa el configurado por el administrador, el mismo que usa FaceCapture.
+// `withExpressions` añade face_expression_model, que solo necesitan los retos de prueba de vida.
+// Acepta la imagen ya decodificada para quien también necesita sus píxeles (la prueba de vida).
+export async function computeFaceDescriptor(
+  image: string | PNG,
+  detector?: DetectorSettings,
+  { withExpressions = false }: { withExpressions?: boolean } = {}
+): Promise<ServerFaceDescriptor | null> {
+  const settings = detector ?? (await getSettings()).detection;
+  try {
+    await ensureModelsLoaded(settings);
+    if (withExpressions) await ensureNetLoaded(faceapi.nets.faceExpressionNet, EXPRESSION_MODEL_NAME);
+  } catch (error) {
+    if (error instanceof ModelIntegrityError) {
+      console.error(`FacePipeline: Integrity check failed for public/models/${error.file ?? ''}:`, error.message);
+      throw new FacePipelineError('Los modelos faciales del servidor no superaron la verificación de integridad y el reconocimiento está bloqueado. Contacta al administrador.', 503);
+    }
+    console.error("FacePipeline: Error loading models from public/models:", error);
+    throw new FacePipelineError('El servidor no pudo cargar los modelos faciales. Contacta al administrador.', 503);
+  }
+
+  const png = typeof image === 'string' ? decodePngDataUri(image) : image;
+  const tensor = toInputTensor(png);
+  try {
+    const task = faceapi
+      .detectAllFaces(tensor, createDetectorOptions(settings))
+      .withFaceLandmarks(settings.useTinyLandmarks);
+    const results = withExpressions
+      ? await task.withFaceExpressions().withFaceDescriptors()
+      : await task.withFaceDescriptors();
+    const selection = selectFace<(typeof results)[number]>(results, settings.multipleFacePolicy, png, face => face.detection.box);
+    if (selection.status === 'rejected') {
+      throw new FacePipelineError(MULTIPLE_FACE_MESSAGES.reject, 422);
+    }
+    if (selection.status === 'none') return null;
+    const result = selection.face;
+    return {
+      descriptor: Array.from(result.descriptor),
+      descriptorVersion: getDescriptorVersion(settings),
+      detectionScore: result.detection.score,
+      quality: assessFaceQuality(png, result.detection.box, result.landmarks.positions),
+      landmarks: result.landmarks.positions.map(({ x, y }) => ({ x, y })),
+      box: { x: result.detection.box.x, y: result.detection.box.y, width: result.detection.box.width, height: result.detection.box.height },
+      expressions: 'expressions' in result
+        ? Object.fromEntries((result.expressions as faceapi.FaceExpressions).asSortedArray().map(({ expression, probability }) => [expression, probability]))
+        : undefined,
+    };
+  } finally {
+    tensor.dispose();
+  }
+}
+
+// Recalcula el descriptor a partir de la imagen y lo compara con el que envió el cliente. Solo el
+// descriptor del servidor debe guardarse o usarse para comparar.
+export async function deriveTrustedDescriptor(imageDataUri: string, clientDescriptor: number[]): Promise<ServerFaceDescriptor> {
+  const computed = await computeFaceDescriptor(imageDataUri);
+  if (!computed) {
+    throw new FacePipelineError('El servidor no detectó un rostro en la imagen enviada. Intenta capturar tu rostro de nuevo.', 422);
+  }
+  const distance = faceapi.euclideanDistance(computed.descriptor, clientDescriptor);
+  if (distance > DESCRIPTOR_AGREEMENT_TOLERANCE) {
+    console.warn(`FacePipeline: client descriptor rejected, distance ${distance.toFixed(3)} to the server descriptor.`);
+    throw new FacePipelineError('El descriptor facial enviado no corresponde a la imagen capturada.', 422);
+  }
+  return computed;
+}
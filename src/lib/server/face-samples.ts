@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+import type { DescriptorVersion, FaceQualityReport, FaceSample, FaceSampleSource } from '@/types';
+import type { FaceSampleInput } from '@/lib/server/user-schemas';
+import { deriveTrustedDescriptor, FacePipelineError } from '@/lib/server/face-pipeline';
+import { BURST_MIN_DETECTION_SCORE, BURST_MIN_KEPT_FRAMES, maxPairwiseDistance, weightedMeanDescriptor } from '@/lib/face/burst';
+import { getSettings } from '@/lib/server/settings-repository';
+
+interface TrustedTemplate {
+  descriptor: number[];
+  descriptorVersion: DescriptorVersion;
+  imageUri: string;
+  quality: FaceQualityReport;
+  detectionScore: number;
+}
+
+// Peso de un fotograma en la media de la ráfaga: confianza del detector por calidad de captura.
+const frameWeight = (frame: { detectionScore: number; quality: FaceQualityReport }) => frame.detectionScore * frame.quality.score;
+
+// Repite en el servidor el cálculo de la ráfaga: cada fotograma se verifica por separado, se
+// descartan los de baja confianza y se promedian los demás ponderados por su calidad. La imagen
+// guardada es el mejor fotograma según el servidor. Todos los fotogramas, y la imagen principal de
+// la captura (la que se guarda como rostro del usuario), deben ser de la misma persona.
+async function deriveBurstTemplate(input: FaceSampleInput & { burstFrames: NonNullable<FaceSampleInput['burstFrames']> }): Promise<TrustedTemplate> {
+  const { burstFrames: frames } = input;
+  const computed = [];
+  for (const frame of frames) {
+    const { descriptor, descriptorVersion, detectionScore, quality } = await deriveTrustedDescriptor(frame.faceImageUri, frame.faceDescriptor);
+    if (detectionScore >= BURST_MIN_DETECTION_SCORE) {
+      computed.push({ imageUri: frame.faceImageUri, descriptor, descriptorVersion, detectionScore, quality });
+    }
+  }
+  if (computed.length < BURST_MIN_KEPT_FRAMES) {
+    throw new FacePipelineError('Muy pocos fotogramas de la ráfaga tienen una detección fiable. Intenta capturar de nuevo con mejor luz y sin moverte.', 422);
+  }
+
+  // La imagen principal suele ser uno de los fotogramas; si no, se verifica también.
+  const descriptors = computed.map(frame => frame.descriptor);
+  if (!frames.some(frame => frame.faceImageUri === input.faceImageUri)) {
+    descriptors.push((await deriveTrustedDescriptor(input.faceImageUri, input.faceDescriptor)).descriptor);
+  }
+  const { recognition } = await getSettings();
+  const spread = maxPairwiseDistance(descriptors);
+  if (spread >= recognition.matchThreshold) {
+    console.warn(`Ráfaga rechazada: fotogramas a distancia ${spread.toFixed(3)} entre sí (umbral ${recognition.matchThreshold}).`);
+    throw new FacePipelineError('Los fotogramas de la ráfaga no muestran a la misma persona. Intenta capturar de nuevo sin que nadie más entre en el encuadre.', 422);
+  }
+
+  const descriptor = weightedMeanDescriptor(computed.map(frame => ({ descriptor: frame.descriptor, weight: frameWeight(frame) })));
+  if (!descriptor) {
+    throw new FacePipelineError('Ningún fotograma de la ráfaga tiene calidad suficiente. Intenta capturar de nuevo con mejor luz y sin moverte.', 422);
+  }
+  const best = computed.reduce((a, b) => (frameWeight(b) > frameWeight(a) ? b : a));
+  return {
+    descriptor,
+    descriptorVersion: best.descriptorVersion,
+    imageUri: best.imageUri,
+    quality: best.quality,
+    detectionScore: best.detectionScore,
+  };
+}
+
+// Una muestra recién calculada siempre tiene versión; solo las anteriores al versionado carecen de ella.
+export type TrustedFaceSample = FaceSample & { descriptorVersion: DescriptorVersion };
+
+// Crea una muestra de galería a partir de una captura del cliente. El descriptor y la calidad se
+// recalculan en el servidor a partir de la imagen; lanza FacePipelineError si no coinciden.
+export async function createTrustedFaceSample(input: FaceSampleInput, source: FaceSampleSource): Promise<TrustedFaceSample> {
+  let template: TrustedTemplate;
+  if (input.burstFrames) {
+    template = await deriveBurstTemplate({ ...input, burstFrames: input.burstFrames });
+  } else {
+    const { descriptor, descriptorVersion, detectionScore, quality } = await deriveTrustedDescriptor(input.faceImageUri, input.faceDescriptor);
+    template = { descriptor, descriptorVersion, imageUri: input.faceImageUri, quality, detectionScore };
+  }
+  return {
+    id: randomUUID(),
+    descriptor: template.descriptor,
+    descriptorVersion: template.descriptorVersion,
+    imageUri: template.imageUri,
+    capturedAt: new Date().toISOString(),
+    source,
+    quality: template.quality.score,
+    qualityMetrics: template.quality.metrics,
+    detectionScore: template.detectionScore,
+  };
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import type { ZodType, ZodTypeDef } from 'zod';
+
+export function jsonError(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// Lee y valida el cuerpo JSON de una petición. Devuelve la respuesta de error lista para
+// retornar desde el route handler si el cuerpo no es válido.
+export async function parseJsonBody<T>(
+  request: Request,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): Promise<{ data: T; error?: undefined } | { data?: undefined; error: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { error: jsonError('El cuerpo de la petición no es JSON válido.', 400) };
+  }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return { error: jsonError('Datos de la petición inválidos.', 400) };
+  }
+  return { data: parsed.data };
+}
@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const DATA_DIR = process.env.FACESIP_DATA_DIR || path.join(process.cwd(), '.data');
+
+// Documento JSON persistido en disco. Todas las operaciones se serializan en una cola para que dos
+// peticiones simultáneas no se pisen, y se escriben de forma atómica (archivo temporal + rename)
+// para no dejar el archivo a medias si el proceso se detiene.
+export class JsonFileStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  // Ejecuta `fn` con el contenido actual (undefined si el archivo no existe). Si `fn` devuelve
+  // `next`, ese valor se escribe en disco antes de resolver con `result`.
+  transaction<R>(fn: (current: unknown) => { next?: unknown; result: R }): Promise<R> {
+    const run = this.queue.then(async () => {
+      const { next, result } = fn(await this.read());
+      if (next !== undefined) {
+        await this.write(next);
+      }
+      return result;
+    });
+    // La cola debe seguir avanzando aunque una operación falle.
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async read(): Promise<unknown> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async write(value: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(value), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
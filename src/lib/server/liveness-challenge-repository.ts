@@ -0,0 +1,53 @@
+import path from 'path';
+import type { LivenessChallenge } from '@/types';
+import { DATA_DIR, JsonFileStore } from '@/lib/server/json-file-store';
+
+// Retos de prueba de vida emitidos y aún sin usar. Cada nonce se consume una sola vez, haya
+// superado o no la verificación, y los caducados se descartan al escribir.
+export interface LivenessChallengeRepository {
+  create(challenge: LivenessChallenge): Promise<LivenessChallenge>;
+  // Devuelve y elimina el reto; null si no existe o ya se usó.
+  consume(nonce: string): Promise<LivenessChallenge | null>;
+}
+
+export class FileLivenessChallengeRepository implements LivenessChallengeRepository {
+  private readonly store: JsonFileStore;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  create(challenge: LivenessChallenge): Promise<LivenessChallenge> {
+    return this.mutate(challenges => ({ challenges: [...challenges, challenge], result: challenge }));
+  }
+
+  consume(nonce: string): Promise<LivenessChallenge | null> {
+    return this.mutate(challenges => {
+      const consumed = challenges.find(c => c.nonce === nonce);
+      if (!consumed) {
+        return { challenges, result: null };
+      }
+      return { challenges: challenges.filter(c => c.nonce !== nonce), result: consumed };
+    });
+  }
+
+  private mutate<R>(fn: (challenges: LivenessChallenge[]) => { challenges: LivenessChallenge[]; result: R }): Promise<R> {
+    return this.store.transaction(raw => {
+      const stored = Array.isArray(raw) ? (raw as LivenessChallenge[]) : [];
+      const now = Date.now();
+      const current = stored.filter(c => Date.parse(c.expiresAt) > now);
+      const { challenges, result } = fn(current);
+      const changed = challenges !== current || current.length !== stored.length;
+      return { next: changed ? challenges : undefined, result };
+    });
+  }
+}
+
+let repository: LivenessChallengeRepository | null = null;
+
+export function getLivenessChallengeRepository(): LivenessChallengeRepository {
+  if (!repository) {
+    repository = new FileLivenessChallengeRepository(path.join(DATA_DIR, 'liveness-challenges.json'));
+  }
+  return repository;
+}
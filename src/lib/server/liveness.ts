@@ -0,0 +1,236 @@
+import { randomInt, randomUUID } from 'crypto';
+import * as faceapi from 'face-api.js';
+import type { PNG } from 'pngjs';
+import type { ChallengeLivenessEvidence, LivenessChallenge, LivenessEvidence } from '@/types';
+import { jsonError } from '@/lib/server/http';
+import { computeFaceDescriptor, decodePngDataUri, FacePipelineError } from '@/lib/server/face-pipeline';
+import type { ServerFaceDescriptor } from '@/lib/server/face-pipeline';
+import { getSettings } from '@/lib/server/settings-repository';
+import { getLivenessChallengeRepository } from '@/lib/server/liveness-challenge-repository';
+import { BLINK_CLOSED_RATIO, faceEyeAspectRatio, MIN_OPEN_EAR } from '@/lib/face/liveness';
+import {
+  CHALLENGE_TIMEOUT_MS,
+  isChallengeSatisfied,
+  isNeutralFace,
+  LIVENESS_CHALLENGE_KINDS,
+  measureChallengeFeatures,
+} from '@/lib/face/challenges';
+import { analyzePresentationAttack, SPOOF_MIN_FRAMES } from '@/lib/face/presentation-attack';
+
+// Margen sobre la suma de los plazos de cada reto para capturar y enviar el intento.
+const CHALLENGE_SUBMIT_GRACE_MS = 60_000;
+// Vigencia del nonce de la prueba de parpadeo: lo que tarda en cargar la cámara, parpadear y enviar.
+const BLINK_NONCE_TTL_MS = 2 * 60_000;
+// Fotogramas distintos que el servidor analiza como máximo en un intento, sumando parpadeo, retos y
+// secuencia de la cámara: cada uno es una pasada completa del pipeline en el backend CPU.
+export const MAX_LIVENESS_FRAMES = 10;
+
+export interface AnalyzedFrame {
+  face: ServerFaceDescriptor;
+  raster: PNG;
+}
+
+// Análisis de los fotogramas de un intento de inicio de sesión. Cada fotograma distinto se decodifica
+// y se analiza una sola vez aunque lo usen varias comprobaciones, y uno tras otro para acotar la
+// memoria y la CPU de cada petición. Con retos, todos se analizan con expresiones.
+export class LivenessFrames {
+  private readonly analyzed = new Map<string, Promise<AnalyzedFrame | null>>();
+
+  constructor(private readonly withExpressions: boolean) {}
+
+  // Devuelve null en cuanto un fotograma no muestra un rostro, sin analizar los siguientes.
+  async analyzeAll(frameUris: string[]): Promise<AnalyzedFrame[] | null> {
+    const frames: AnalyzedFrame[] = [];
+    for (const uri of frameUris) {
+      const frame = await this.analyze(uri);
+      if (!frame) return null;
+      frames.push(frame);
+    }
+    return frames;
+  }
+
+  private analyze(uri: string): Promise<AnalyzedFrame | null> {
+    let frame = this.analyzed.get(uri);
+    if (!frame) {
+      frame = (async () => {
+        const raster = decodePngDataUri(uri);
+        const face = await computeFaceDescriptor(raster, undefined, { withExpressions: this.withExpressions });
+        return face ? { face, raster } : null;
+      })();
+      this.analyzed.set(uri, frame);
+    }
+    return frame;
+  }
+}
+
+// Emite el nonce de un solo uso al que se ata la evidencia de parpadeo del siguiente intento. Se
+// guarda como una secuencia sin retos, que no puede usarse como respuesta a retos (ni al revés).
+export async function issueBlinkNonce(): Promise<LivenessChallenge> {
+  return getLivenessChallengeRepository().create({
+    nonce: randomUUID(),
+    challenges: [],
+    timeoutMs: BLINK_NONCE_TTL_MS,
+    expiresAt: new Date(Date.now() + BLINK_NONCE_TTL_MS).toISOString(),
+  });
+}
+
+// Comprueba en el servidor la evidencia de parpadeo que envía FaceCapture: el nonce debe estar
+// vigente (y queda consumido), y ambos fotogramas deben mostrar a la misma persona que la captura
+// de inicio de sesión, con los ojos claramente abiertos en uno y cerrados en el otro según los
+// landmarks calculados aquí, no los EAR del cliente.
+// `matchThreshold` es el umbral de coincidencia configurado, con el que se compara cada fotograma.
+export async function verifyBlinkEvidence(evidence: LivenessEvidence, frames: LivenessFrames, loginDescriptor: number[], matchThreshold: number): Promise<string | null> {
+  const issued = await getLivenessChallengeRepository().consume(evidence.nonce);
+  if (!issued || issued.challenges.length > 0) {
+    return 'La prueba de parpadeo caducó o ya se usó. Vuelve a parpadear frente a la cámara.';
+  }
+  const analyzed = await frames.analyzeAll([evidence.openFrameUri, evidence.closedFrameUri]);
+  if (!analyzed) {
+    return 'No se detectó un rostro en los fotogramas de la prueba de vida.';
+  }
+  const [open, closed] = analyzed.map(frame => frame.face);
+  const samePerson = [open, closed].every(frame => faceapi.euclideanDistance(frame.descriptor, loginDescriptor) < matchThreshold);
+  if (!samePerson) {
+    return 'Los fotogramas de la prueba de vida no corresponden al rostro capturado.';
+  }
+  const openEar = faceEyeAspectRatio(open.landmarks);
+  const closedEar = faceEyeAspectRatio(closed.landmarks);
+  if (openEar < MIN_OPEN_EAR || closedEar > openEar * BLINK_CLOSED_RATIO) {
+    console.warn(`Liveness: blink rejected, server EAR open ${openEar.toFixed(3)} / closed ${closedEar.toFixed(3)}.`);
+    return 'No se pudo confirmar el parpadeo. Intenta de nuevo parpadeando con naturalidad.';
+  }
+  return null;
+}
+
+// Emite una secuencia de `count` retos distintos en orden aleatorio y la guarda hasta que se use.
+export async function issueLivenessChallenge(count: number): Promise<LivenessChallenge> {
+  const kinds = [...LIVENESS_CHALLENGE_KINDS];
+  for (let i = kinds.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [kinds[i], kinds[j]] = [kinds[j], kinds[i]];
+  }
+  const challenges = kinds.slice(0, count);
+  const validForMs = (challenges.length + 1) * CHALLENGE_TIMEOUT_MS + CHALLENGE_SUBMIT_GRACE_MS;
+  return getLivenessChallengeRepository().create({
+    nonce: randomUUID(),
+    challenges,
+    timeoutMs: CHALLENGE_TIMEOUT_MS,
+    expiresAt: new Date(Date.now() + validForMs).toISOString(),
+  });
+}
+
+// Comprueba la respuesta a un reto emitido: el nonce debe estar vigente (y queda consumido), los
+// retos deben ser los emitidos y en su orden, y cada fotograma debe mostrar al mismo rostro que la
+// captura cumpliendo su reto frente al fotograma neutro, según el análisis del propio servidor.
+export async function verifyChallengeResponse(response: ChallengeLivenessEvidence, frames: LivenessFrames, loginDescriptor: number[], matchThreshold: number): Promise<string | null> {
+  const issued = await getLivenessChallengeRepository().consume(response.nonce);
+  if (!issued) {
+    return 'Los retos de la prueba de vida caducaron o ya se usaron. Inténtalo de nuevo.';
+  }
+  const answered = response.responses.map(r => r.challenge);
+  if (answered.length !== issued.challenges.length || answered.some((challenge, i) => challenge !== issued.challenges[i])) {
+    return 'La respuesta no corresponde a los retos solicitados.';
+  }
+
+  const analyzed = (await frames.analyzeAll([response.neutralFrameUri, ...response.responses.map(r => r.frameUri)]))
+    ?.map(frame => frame.face);
+  if (!analyzed) {
+    return 'No se detectó un rostro en los fotogramas de los retos.';
+  }
+  if (!analyzed.every(frame => faceapi.euclideanDistance(frame.descriptor, loginDescriptor) < matchThreshold)) {
+    return 'Los fotogramas de los retos no corresponden al rostro capturado.';
+  }
+
+  const [neutral, ...answers] = analyzed.map(frame => measureChallengeFeatures(frame.landmarks, { mirrored: true, happy: frame.expressions?.happy }));
+  if (!isNeutralFace(neutral)) {
+    return 'El fotograma de referencia no muestra una expresión neutra de frente.';
+  }
+  const failedIndex = answers.findIndex((features, i) => !isChallengeSatisfied(issued.challenges[i], neutral, features));
+  if (failedIndex !== -1) {
+    console.warn(`Liveness: challenge '${issued.challenges[failedIndex]}' rejected by the server analysis.`);
+    return 'No se pudo confirmar uno de los retos de la prueba de vida. Inténtalo de nuevo.';
+  }
+  return null;
+}
+
+// Ejecuta el detector de ataques de presentación sobre la secuencia enviada, con los landmarks y
+// las cajas calculados en el servidor. Todos los fotogramas deben mostrar al rostro capturado.
+export async function verifySpoofFrames(frameUris: string[], frames: LivenessFrames, loginDescriptor: number[], threshold: number, matchThreshold: number): Promise<string | null> {
+  const analyzed = await frames.analyzeAll(frameUris);
+  if (!analyzed) {
+    return 'No se detectó un rostro en todos los fotogramas de la secuencia de la cámara.';
+  }
+  if (!analyzed.every(({ face }) => faceapi.euclideanDistance(face.descriptor, loginDescriptor) < matchThreshold)) {
+    return 'Los fotogramas de la secuencia no corresponden al rostro capturado.';
+  }
+  const report = analyzePresentationAttack(analyzed.map(({ face, raster }) => ({
+    raster,
+    landmarks: face.landmarks,
+    box: face.box,
+  })));
+  if (report.insufficientMotion) {
+    console.warn(`Liveness: presentation attack inconclusive, no motion in the sequence (${JSON.stringify(report.cues)}).`);
+    return 'No se detectó movimiento en la secuencia de la cámara. Mueve ligeramente la cabeza antes de capturar.';
+  }
+  if (report.score > threshold) {
+    console.warn(`Liveness: presentation attack suspected, spoof score ${report.score.toFixed(2)} (${JSON.stringify(report.cues)}).`);
+    return 'La captura parece provenir de una foto o de una pantalla. Colócate directamente frente a la cámara.';
+  }
+  return null;
+}
+
+export interface LivenessInput {
+  liveness?: LivenessEvidence;
+  challengeResponse?: ChallengeLivenessEvidence;
+  spoofFrames?: string[];
+}
+
+// Aplica la política de prueba de vida a un intento de inicio de sesión. Devuelve la respuesta de
+// error lista para retornar, o null si el intento puede continuar.
+// Solo se analizan las pruebas que exige la configuración. Si no caben en MAX_LIVENESS_FRAMES, la
+// secuencia de la cámara se recorta a sus fotogramas más recientes (al menos SPOOF_MIN_FRAMES).
+export async function enforceLiveness(input: LivenessInput, loginDescriptor: number[]) {
+  const { liveness, recognition } = await getSettings();
+  if (liveness.requireBlink && !input.liveness) {
+    return jsonError('Se requiere una prueba de vida: parpadea frente a la cámara antes de capturar.', 403);
+  }
+  if (liveness.challengeCount > 0 && !input.challengeResponse) {
+    return jsonError('Se requiere completar los retos de la prueba de vida antes de capturar.', 403);
+  }
+  if (liveness.spoofDetection && !input.spoofFrames) {
+    return jsonError('Falta la secuencia de la cámara necesaria para la prueba de vida.', 403);
+  }
+
+  const blink = liveness.requireBlink ? input.liveness : undefined;
+  const challengeResponse = liveness.challengeCount > 0 ? input.challengeResponse : undefined;
+  const frameUris = [
+    ...(blink ? [blink.openFrameUri, blink.closedFrameUri] : []),
+    ...(challengeResponse ? [challengeResponse.neutralFrameUri, ...challengeResponse.responses.map(r => r.frameUri)] : []),
+  ];
+  const spoofFrames = liveness.spoofDetection && input.spoofFrames
+    ? input.spoofFrames.slice(-Math.max(SPOOF_MIN_FRAMES, MAX_LIVENESS_FRAMES - frameUris.length))
+    : undefined;
+  if (new Set([...frameUris, ...(spoofFrames ?? [])]).size > MAX_LIVENESS_FRAMES) {
+    return jsonError('La prueba de vida incluye demasiados fotogramas.', 413);
+  }
+
+  const frames = new LivenessFrames(challengeResponse !== undefined);
+  try {
+    if (blink) {
+      const failure = await verifyBlinkEvidence(blink, frames, loginDescriptor, recognition.matchThreshold);
+      if (failure) return jsonError(failure, 403);
+    }
+    if (challengeResponse) {
+      const failure = await verifyChallengeResponse(challengeResponse, frames, loginDescriptor, recognition.matchThreshold);
+      if (failure) return jsonError(failure, 403);
+    }
+    if (spoofFrames) {
+      const failure = await verifySpoofFrames(spoofFrames, frames, loginDescriptor, liveness.spoofThreshold, recognition.matchThreshold);
+      if (failure) return jsonError(failure, 403);
+    }
+    return null;
+  } catch (pipelineError) {
+    if (pipelineError instanceof FacePipelineError) return jsonError(pipelineError.message, pipelineError.status);
+    throw pipelineError;
+  }
+}
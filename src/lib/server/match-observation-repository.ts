@@ -0,0 +1,46 @@
+import path from 'path';
+import type { MatchObservation } from '@/types';
+import { DATA_DIR, JsonFileStore } from '@/lib/server/json-file-store';
+
+// Solo se conservan los inicios de sesión más recientes: reflejan las cámaras y la configuración
+// del detector actuales.
+export const MAX_MATCH_OBSERVATIONS = 500;
+
+// Distancias de los inicios de sesión aceptados, para la calibración del umbral.
+export interface MatchObservationRepository {
+  list(): Promise<MatchObservation[]>;
+  record(observation: MatchObservation): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class FileMatchObservationRepository implements MatchObservationRepository {
+  private readonly store: JsonFileStore;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  list(): Promise<MatchObservation[]> {
+    return this.store.transaction(raw => ({ result: Array.isArray(raw) ? (raw as MatchObservation[]) : [] }));
+  }
+
+  record(observation: MatchObservation): Promise<void> {
+    return this.store.transaction(raw => {
+      const stored = Array.isArray(raw) ? (raw as MatchObservation[]) : [];
+      return { next: [...stored, observation].slice(-MAX_MATCH_OBSERVATIONS), result: undefined };
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.store.transaction(() => ({ next: [], result: undefined }));
+  }
+}
+
+let repository: MatchObservationRepository | null = null;
+
+export function getMatchObservationRepository(): MatchObservationRepository {
+  if (!repository) {
+    repository = new FileMatchObservationRepository(path.join(DATA_DIR, 'match-observations.json'));
+  }
+  return repository;
+}
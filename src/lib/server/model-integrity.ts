@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ModelIntegrityReport } from '@/types';
+import { MODEL_INTEGRITY_FILE, ModelIntegrityError, verifyIntegrityManifest, verifyModelFile, WEIGHTS_MANIFEST_SUFFIX, weightsManifestPaths } from '@/lib/face/model-integrity';
+import type { ModelIntegrityManifest } from '@/lib/face/model-integrity';
+
+// Lado servidor de la verificación de `public/models` (ver src/lib/face/model-integrity.ts): el
+// pipeline lee los pesos a través de estas funciones y /admin/settings muestra el informe.
+
+export const MODELS_DIR = path.join(process.cwd(), 'public', 'models');
+
+// Lee y verifica `integrity.json`. Se lee en cada carga de modelos para que volver a firmar no
+// requiera reiniciar el servidor.
+export async function loadIntegrityManifest(): Promise<ModelIntegrityManifest> {
+  let raw: unknown = null;
+  try {
+    raw = JSON.parse(await fs.readFile(path.join(MODELS_DIR, MODEL_INTEGRITY_FILE), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ModelIntegrityError(`Falta ${MODEL_INTEGRITY_FILE} en public/models.`, MODEL_INTEGRITY_FILE);
+    }
+    // Un JSON ilegible lo rechaza verifyIntegrityManifest como formato inválido.
+  }
+  return verifyIntegrityManifest(raw);
+}
+
+// Lee un archivo de `public/models` y lo devuelve solo si coincide con su huella firmada.
+export async function readVerifiedModelFile(manifest: ModelIntegrityManifest, file: string): Promise<Buffer> {
+  const data = await fs.readFile(path.join(MODELS_DIR, file));
+  await verifyModelFile(manifest, file, data);
+  return data;
+}
+
+// Archivos que deben estar firmados: los de `integrity.json`, los manifiestos de pesos que hay en
+// `public/models` y todos los fragmentos que estos referencian, aunque falten o no figuren en la lista.
+async function listModelFiles(manifest: ModelIntegrityManifest): Promise<string[]> {
+  const files = new Set(Object.keys(manifest.files));
+  const onDisk = (await fs.readdir(MODELS_DIR)).filter(name => name.endsWith(WEIGHTS_MANIFEST_SUFFIX));
+  for (const weightsManifest of [...files, ...onDisk].filter(name => name.endsWith(WEIGHTS_MANIFEST_SUFFIX))) {
+    files.add(weightsManifest);
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(await fs.readFile(path.join(MODELS_DIR, weightsManifest), 'utf8'));
+    } catch {
+      // Si falta o es ilegible, su propia verificación lo informa.
+    }
+    for (const shard of weightsManifestPaths(raw)) files.add(shard);
+  }
+  return [...files].sort();
+}
+
+export async function checkModelIntegrity(): Promise<ModelIntegrityReport> {
+  let manifest: ModelIntegrityManifest;
+  try {
+    manifest = await loadIntegrityManifest();
+  } catch (error) {
+    if (!(error instanceof ModelIntegrityError)) throw error;
+    return { valid: false, signedAt: null, checkedFiles: 0, failures: [{ file: MODEL_INTEGRITY_FILE, reason: error.message }] };
+  }
+
+  const files = await listModelFiles(manifest);
+  const failures: ModelIntegrityReport['failures'] = [];
+  for (const file of files) {
+    try {
+      await readVerifiedModelFile(manifest, file);
+    } catch (error) {
+      if (error instanceof ModelIntegrityError) {
+        failures.push({ file, reason: error.message });
+      } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        failures.push({ file, reason: `Falta ${file} en public/models.` });
+      } else {
+        throw error;
+      }
+    }
+  }
+  return { valid: failures.length === 0, signedAt: manifest.signedAt, checkedFiles: files.length, failures };
+}
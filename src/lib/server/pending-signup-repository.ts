@@ -0,0 +1,75 @@
+import path from 'path';
+import type { PendingSignup } from '@/types';
+import { DATA_DIR, JsonFileStore } from '@/lib/server/json-file-store';
+import { withBaselineDescriptorVersion } from '@/lib/user-schema';
+
+// Cola de registros retenidos porque su rostro coincide con una cuenta existente. El administrador
+// los aprueba (se crea la cuenta) o los rechaza desde /admin/users.
+export interface PendingSignupRepository {
+  list(): Promise<PendingSignup[]>;
+  findById(id: string): Promise<PendingSignup | null>;
+  findByEmail(email: string): Promise<PendingSignup | null>;
+  create(pendingSignup: PendingSignup): Promise<PendingSignup>;
+  remove(id: string): Promise<PendingSignup | null>;
+  clear(): Promise<void>;
+}
+
+export class FilePendingSignupRepository implements PendingSignupRepository {
+  private readonly store: JsonFileStore;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  list(): Promise<PendingSignup[]> {
+    return this.mutate(pending => ({ pending, result: pending }));
+  }
+
+  async findById(id: string): Promise<PendingSignup | null> {
+    const pending = await this.list();
+    return pending.find(p => p.id === id) ?? null;
+  }
+
+  async findByEmail(email: string): Promise<PendingSignup | null> {
+    const normalized = email.trim().toLowerCase();
+    const pending = await this.list();
+    return pending.find(p => p.email.trim().toLowerCase() === normalized) ?? null;
+  }
+
+  create(pendingSignup: PendingSignup): Promise<PendingSignup> {
+    return this.mutate(pending => ({ pending: [...pending, pendingSignup], result: pendingSignup }));
+  }
+
+  remove(id: string): Promise<PendingSignup | null> {
+    return this.mutate(pending => {
+      const removed = pending.find(p => p.id === id);
+      if (!removed) {
+        return { pending, result: null };
+      }
+      return { pending: pending.filter(p => p.id !== id), result: removed };
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.mutate(() => ({ pending: [], result: undefined }));
+  }
+
+  private mutate<R>(fn: (pending: PendingSignup[]) => { pending: PendingSignup[]; result: R }): Promise<R> {
+    return this.store.transaction(raw => {
+      const stored = Array.isArray(raw) ? (raw as PendingSignup[]) : [];
+      const current = stored.map(p => ({ ...p, faceSample: withBaselineDescriptorVersion(p.faceSample) }));
+      const { pending, result } = fn(current);
+      const changed = pending !== current || stored.some(p => !p.faceSample.descriptorVersion);
+      return { next: changed ? pending : undefined, result };
+    });
+  }
+}
+
+let repository: PendingSignupRepository | null = null;
+
+export function getPendingSignupRepository(): PendingSignupRepository {
+  if (!repository) {
+    repository = new FilePendingSignupRepository(path.join(DATA_DIR, 'pending-signups.json'));
+  }
+  return repository;
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { jsonError } from '@/lib/server/http';
+
+// Limitador en memoria de ventana fija por cliente, para los endpoints de autenticación que no
+// requieren sesión. Cada instancia del servidor lleva su propia cuenta.
+export class RateLimiter {
+  private readonly windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  // Cuenta una petición del cliente. Devuelve los milisegundos que faltan para que pueda reintentar
+  // si supera el límite, o null si la petición puede continuar.
+  hit(client: string, now = Date.now()): number | null {
+    this.prune(now);
+    const window = this.windows.get(client);
+    if (!window || window.resetAt <= now) {
+      this.windows.set(client, { count: 1, resetAt: now + this.windowMs });
+      return null;
+    }
+    window.count += 1;
+    return window.count > this.limit ? window.resetAt - now : null;
+  }
+
+  private prune(now: number) {
+    for (const [client, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(client);
+    }
+  }
+}
+
+// Emisión de nonces de parpadeo y de retos: uno de cada por intento, con margen para reintentos.
+export const livenessNonceLimiter = new RateLimiter(20, 60_000);
+// Intentos de inicio de sesión facial (identificación y verificación comparten el límite): cada uno
+// analiza la captura y los fotogramas de la prueba de vida.
+export const faceLoginLimiter = new RateLimiter(10, 60_000);
+
+// Los route handlers no tienen acceso al socket, así que el cliente se identifica con las cabeceras del
+// proxy: X-Real-IP o, si no, la última entrada de X-Forwarded-For, que añade el proxy más cercano.
+export function getClientAddress(request: Request): string {
+  const realIp = request.headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean);
+  return forwarded?.[forwarded.length - 1] ?? 'unknown';
+}
+
+// Aplica el limitador a la petición. Devuelve la respuesta 429 lista para retornar, o null.
+export function enforceRateLimit(request: Request, limiter: RateLimiter): NextResponse | null {
+  const retryAfterMs = limiter.hit(getClientAddress(request));
+  if (retryAfterMs === null) return null;
+  const response = jsonError('Demasiados intentos. Espera un momento antes de volver a intentarlo.', 429);
+  response.headers.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  return response;
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextResponse } from 'next/server';
+import { DATA_DIR } from '@/lib/server/json-file-store';
+
+// Sesión del servidor tras un inicio de sesión facial aceptado. La cookie es httpOnly y lleva el id
+// del usuario y su caducidad firmados con HMAC-SHA256: el navegador no puede leerla ni fabricarla,
+// y las rutas protegidas identifican a quien actúa solo a partir de ella.
+
+export const SESSION_COOKIE = 'facesip_session';
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Sin FACESIP_SESSION_SECRET se genera un secreto aleatorio y se guarda junto a los datos, para que
+// las sesiones sobrevivan a un reinicio. En un despliegue con varias instancias debe fijarse la variable.
+const SECRET_FILE = path.join(DATA_DIR, 'session-secret');
+
+interface SessionPayload {
+  userId: string;
+  exp: number; // Segundos desde epoch
+}
+
+let secretPromise: Promise<Buffer> | null = null;
+
+async function loadOrCreateSecret(): Promise<Buffer> {
+  if (process.env.FACESIP_SESSION_SECRET) {
+    return Buffer.from(process.env.FACESIP_SESSION_SECRET, 'utf8');
+  }
+  try {
+    return Buffer.from(await fs.readFile(SECRET_FILE, 'utf8'), 'base64');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const secret = randomBytes(32);
+  try {
+    // `wx` falla si otro proceso lo creó entretanto; en ese caso vale el suyo.
+    await fs.writeFile(SECRET_FILE, secret.toString('base64'), { encoding: 'utf8', flag: 'wx', mode: 0o600 });
+    return secret;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    return Buffer.from(await fs.readFile(SECRET_FILE, 'utf8'), 'base64');
+  }
+}
+
+function getSecret(): Promise<Buffer> {
+  if (!secretPromise) {
+    secretPromise = loadOrCreateSecret().catch(error => {
+      secretPromise = null;
+      throw error;
+    });
+  }
+  return secretPromise;
+}
+
+async function sign(encodedPayload: string): Promise<string> {
+  return createHmac('sha256', await getSecret()).update(encodedPayload).digest('base64url');
+}
+
+async function createSessionToken(userId: string): Promise<string> {
+  const payload: SessionPayload = { userId, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS };
+  const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${encodedPayload}.${await sign(encodedPayload)}`;
+}
+
+async function verifySessionToken(token: string): Promise<string | null> {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(await sign(encodedPayload), 'base64url');
+  const received = Buffer.from(signature, 'base64url');
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as Partial<SessionPayload>;
+    if (typeof payload.userId !== 'string' || typeof payload.exp !== 'number') return null;
+    return payload.exp > Date.now() / 1000 ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        // Un valor mal codificado (p. ej. `%E0%A4%A`) equivale a no tener sesión.
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// Id del usuario de la sesión de la petición, o null si no hay cookie, es inválida o caducó.
+export async function getSessionUserId(request: Request): Promise<string | null> {
+  const token = readCookie(request, SESSION_COOKIE);
+  return token ? verifySessionToken(token) : null;
+}
+
+export async function startSession(response: NextResponse, userId: string): Promise<NextResponse> {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(userId), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return response;
+}
+
+export function endSession(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,101 @@
+import path from 'path';
+import type { AppSettings, AppSettingsChanges } from '@/types';
+import { DATA_DIR, JsonFileStore } from '@/lib/server/json-file-store';
+import { DEFAULT_DETECTOR_SETTINGS } from '@/lib/face/detector';
+import { getDescriptorVersion, isSameDescriptorVersion } from '@/lib/face/descriptor-version';
+import { DEFAULT_SPOOF_THRESHOLD } from '@/lib/face/presentation-attack';
+import { DEFAULT_FACE_MATCH_THRESHOLD, DEFAULT_FACE_VERIFICATION_THRESHOLD } from '@/lib/server/face-matching';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  recognition: {
+    matchThreshold: DEFAULT_FACE_MATCH_THRESHOLD,
+    verificationThreshold: DEFAULT_FACE_VERIFICATION_THRESHOLD,
+    ambiguityMargin: 0.05,
+  },
+  liveness: {
+    requireBlink: true,
+    challengeCount: 2,
+    spoofDetection: true,
+    spoofThreshold: DEFAULT_SPOOF_THRESHOLD,
+  },
+  login: {
+    policy: 'both',
+  },
+  enrollment: {
+    duplicateFacePolicy: 'block',
+  },
+  detection: DEFAULT_DETECTOR_SETTINGS,
+};
+
+// Combina sección a sección, de modo que un archivo guardado antes de que existiera un ajuste
+// recibe su valor por defecto.
+function mergeSection<S extends keyof AppSettings>(base: AppSettings, changes: AppSettingsChanges, section: S): AppSettings[S] {
+  return { ...base[section], ...changes[section] };
+}
+
+function mergeSettings(base: AppSettings, changes: AppSettingsChanges): AppSettings {
+  return {
+    recognition: mergeSection(base, changes, 'recognition'),
+    liveness: mergeSection(base, changes, 'liveness'),
+    login: mergeSection(base, changes, 'login'),
+    enrollment: mergeSection(base, changes, 'enrollment'),
+    detection: mergeSection(base, changes, 'detection'),
+  };
+}
+
+const store = new JsonFileStore(path.join(DATA_DIR, 'settings.json'));
+
+function fromStored(raw: unknown): AppSettings {
+  const settings = mergeSettings(DEFAULT_SETTINGS, raw && typeof raw === 'object' ? (raw as AppSettingsChanges) : {});
+  // La política 'all' ya no existe; en la práctica el servidor usaba el rostro más grande.
+  if (!['reject', 'largest', 'central'].includes(settings.detection.multipleFacePolicy)) {
+    settings.detection = { ...settings.detection, multipleFacePolicy: 'largest' };
+  }
+  // Un archivo anterior al umbral de verificación recibe el valor por defecto, que no debe ser más
+  // permisivo que un umbral de identificación ya ajustado por debajo.
+  const { matchThreshold, verificationThreshold } = settings.recognition;
+  if (verificationThreshold > matchThreshold) {
+    settings.recognition = { ...settings.recognition, verificationThreshold: matchThreshold };
+  }
+  return settings;
+}
+
+export function getSettings(): Promise<AppSettings> {
+  return store.transaction(raw => ({ result: fromStored(raw) }));
+}
+
+// Cambios que por separado son válidos pero dejan la configuración incoherente.
+export class InvalidSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSettingsError';
+  }
+}
+
+// El cambio de detección altera la versión de los descriptores: las muestras ya enroladas dejan de
+// compararse hasta recalcularlas con la migración de descriptores.
+export class DescriptorVersionChangeError extends Error {
+  constructor() {
+    super('El cambio de detector o de modelo de landmarks invalida las muestras faciales registradas.');
+    this.name = 'DescriptorVersionChangeError';
+  }
+}
+
+export interface UpdateSettingsOptions {
+  // Sin él, un cambio que altera la versión de los descriptores se rechaza.
+  allowDescriptorChange?: boolean;
+}
+
+export function updateSettings(changes: AppSettingsChanges, options: UpdateSettingsOptions = {}): Promise<AppSettings> {
+  return store.transaction(raw => {
+    const current = fromStored(raw);
+    const next = mergeSettings(current, changes);
+    if (next.recognition.verificationThreshold > next.recognition.matchThreshold) {
+      throw new InvalidSettingsError('El umbral de verificación no puede ser mayor que el de coincidencia.');
+    }
+    if (!options.allowDescriptorChange && !isSameDescriptorVersion(getDescriptorVersion(current.detection), getDescriptorVersion(next.detection))) {
+      throw new DescriptorVersionChangeError();
+    }
+    return { next, result: next };
+  });
+}
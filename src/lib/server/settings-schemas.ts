@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { TINY_INPUT_SIZES } from '@/lib/face/detector';
+import { MAX_LIVENESS_CHALLENGES } from '@/lib/face/challenges';
+
+export const UpdateSettingsSchema = z.object({
+  recognition: z.object({
+    matchThreshold: z.number().min(0.2).max(1),
+    verificationThreshold: z.number().min(0.2).max(1),
+    ambiguityMargin: z.number().min(0).max(0.5),
+  }).partial().optional(),
+  liveness: z.object({
+    requireBlink: z.boolean(),
+    challengeCount: z.number().int().min(0).max(MAX_LIVENESS_CHALLENGES),
+    spoofDetection: z.boolean(),
+    spoofThreshold: z.number().min(0.1).max(1),
+  }).partial().optional(),
+  login: z.object({
+    policy: z.enum(['identification', 'verification', 'both']),
+  }).partial().optional(),
+  enrollment: z.object({
+    duplicateFacePolicy: z.enum(['block', 'review']),
+  }).partial().optional(),
+  detection: z.object({
+    kind: z.enum(['tiny', 'ssd', 'mtcnn']),
+    inputSize: z.number().int().refine(size => (TINY_INPUT_SIZES as readonly number[]).includes(size)),
+    scoreThreshold: z.number().min(0.1).max(0.99),
+    useTinyLandmarks: z.boolean(),
+    multipleFacePolicy: z.enum(['reject', 'largest', 'central']),
+    backend: z.enum(['auto', 'webgl', 'wasm', 'cpu']),
+  }).partial().optional(),
+});
@@ -0,0 +1,133 @@
+import path from 'path';
+import type { FaceSample, User } from '@/types';
+import { migrateUser, needsMigration } from '@/lib/user-schema';
+import { DATA_DIR, JsonFileStore } from '@/lib/server/json-file-store';
+
+// El correo ya pertenece a otro usuario. Se comprueba dentro de la escritura serializada de `create`,
+// de modo que dos registros simultáneos con el mismo correo no pueden crear ambos la cuenta.
+export class DuplicateEmailError extends Error {
+  constructor(readonly email: string) {
+    super(`Ya existe un usuario con el correo ${email}`);
+    this.name = 'DuplicateEmailError';
+  }
+}
+
+// Cambio de galería rechazado dentro de `updateSamples`; `status` es el código HTTP con que responder.
+export class FaceSampleChangeError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'FaceSampleChangeError';
+  }
+}
+
+export interface CreateUserOptions {
+  // El usuario se crea como administrador si la base de datos está vacía en el momento de escribir.
+  promoteFirstUser?: boolean;
+}
+
+// Contrato de persistencia de usuarios. Las rutas de `/api/users` solo dependen de esta
+// interfaz, de modo que el almacenamiento en archivo puede sustituirse por otra base de datos.
+export interface UserRepository {
+  list(): Promise<User[]>;
+  findById(id: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  // Falla con DuplicateEmailError si el correo ya está registrado. Devuelve el usuario guardado.
+  create(user: User, options?: CreateUserOptions): Promise<User>;
+  update(id: string, changes: Partial<Omit<User, 'id'>>): Promise<User | null>;
+  // Lee y reescribe la galería en la misma escritura serializada, para que dos cambios simultáneos
+  // no se pisen. `fn` puede lanzar FaceSampleChangeError para rechazar el cambio sin escribir nada.
+  updateSamples(id: string, fn: (samples: FaceSample[]) => FaceSample[]): Promise<User | null>;
+  // Borra todos los usuarios. Solo debe invocarse desde la acción de administrador "restablecer base de datos".
+  clear(): Promise<void>;
+}
+
+// Implementación respaldada por un archivo JSON (ver JsonFileStore). Los registros con un
+// `schemaVersion` antiguo se migran al cargarlos y se reescriben en disco.
+export class FileUserRepository implements UserRepository {
+  private readonly store: JsonFileStore;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  list(): Promise<User[]> {
+    return this.mutate(users => ({ users, result: users }));
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const users = await this.list();
+    return users.find(u => u.id === id) ?? null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const users = await this.list();
+    return findUserByEmail(users, email);
+  }
+
+  create(user: User, options: CreateUserOptions = {}): Promise<User> {
+    return this.mutate(users => {
+      if (users.some(u => u.id === user.id)) {
+        throw new Error(`Ya existe un usuario con id ${user.id}`);
+      }
+      if (findUserByEmail(users, user.email)) {
+        throw new DuplicateEmailError(user.email);
+      }
+      const created: User = options.promoteFirstUser && users.length === 0 ? { ...user, isAdmin: true } : user;
+      return { users: [...users, created], result: created };
+    });
+  }
+
+  update(id: string, changes: Partial<Omit<User, 'id'>>): Promise<User | null> {
+    return this.mutate(users => {
+      const index = users.findIndex(u => u.id === id);
+      if (index === -1) {
+        return { users, result: null };
+      }
+      const updated: User = { ...users[index], ...changes, id };
+      const next = [...users];
+      next[index] = updated;
+      return { users: next, result: updated };
+    });
+  }
+
+  updateSamples(id: string, fn: (samples: FaceSample[]) => FaceSample[]): Promise<User | null> {
+    return this.mutate(users => {
+      const index = users.findIndex(u => u.id === id);
+      if (index === -1) {
+        return { users, result: null };
+      }
+      const updated: User = { ...users[index], faceSamples: fn(users[index].faceSamples) };
+      const next = [...users];
+      next[index] = updated;
+      return { users: next, result: updated };
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.mutate(() => ({ users: [], result: undefined }));
+  }
+
+  private mutate<R>(fn: (users: User[]) => { users: User[]; result: R }): Promise<R> {
+    return this.store.transaction(raw => {
+      const stored = Array.isArray(raw) ? raw : [];
+      const current = stored.map(migrateUser);
+      const { users, result } = fn(current);
+      const changed = users !== current || stored.some(needsMigration);
+      return { next: changed ? users : undefined, result };
+    });
+  }
+}
+
+function findUserByEmail(users: User[], email: string): User | null {
+  const normalized = email.trim().toLowerCase();
+  return users.find(u => u.email.trim().toLowerCase() === normalized) ?? null;
+}
+
+let repository: UserRepository | null = null;
+
+export function getUserRepository(): UserRepository {
+  if (!repository) {
+    repository = new FileUserRepository(path.join(DATA_DIR, 'users.json'));
+  }
+  return repository;
+}
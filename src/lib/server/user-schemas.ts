@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { BURST_FRAME_COUNT, BURST_MIN_KEPT_FRAMES } from '@/lib/face/burst';
+import { LIVENESS_CHALLENGE_KINDS, MAX_LIVENESS_CHALLENGES } from '@/lib/face/challenges';
+import { SPOOF_FRAME_COUNT, SPOOF_MIN_FRAMES } from '@/lib/face/presentation-attack';
+import { MAX_FACE_IMAGE_URI_LENGTH } from '@/lib/server/face-pipeline';
+
+// face-api.js produce descriptores de 128 dimensiones.
+export const FaceDescriptorSchema = z.array(z.number().finite()).length(128);
+
+export const FaceImageUriSchema = z
+  .string()
+  .max(MAX_FACE_IMAGE_URI_LENGTH, 'La imagen es demasiado grande.')
+  .regex(/^data:image\/[a-z+]+;base64,/, 'La imagen debe ser un data URI en base64.');
+
+const FaceFrameSchema = z.object({
+  faceImageUri: FaceImageUriSchema,
+  faceDescriptor: FaceDescriptorSchema,
+});
+
+// Una captura de FaceCapture: la imagen y el descriptor que calculó el cliente. El servidor
+// recalcula el descriptor desde la imagen y solo usa el del cliente para verificar que coinciden.
+// En modo ráfaga llegan además los fotogramas válidos y el servidor promedia sus descriptores.
+export const FaceSampleInputSchema = FaceFrameSchema.extend({
+  burstFrames: z.array(FaceFrameSchema).min(BURST_MIN_KEPT_FRAMES).max(BURST_FRAME_COUNT).optional(),
+});
+export type FaceSampleInput = z.infer<typeof FaceSampleInputSchema>;
+
+// `legacyImport` marca la subida de un usuario que versiones anteriores guardaban solo en el
+// navegador: se registra sin iniciar sesión con él y nunca como primer administrador.
+export const CreateUserSchema = FaceSampleInputSchema.extend({
+  name: z.string().trim().min(1),
+  email: z.string().trim().email(),
+  legacyImport: z.boolean().default(false),
+});
+export type CreateUserInput = z.infer<typeof CreateUserSchema>;
+
+export const UpdateUserFaceSchema = FaceSampleInputSchema;
+export type UpdateUserFaceInput = z.infer<typeof UpdateUserFaceSchema>;
+
+export const LivenessEvidenceSchema = z.object({
+  method: z.literal('blink'),
+  nonce: z.string().uuid(),
+  openFrameUri: FaceImageUriSchema,
+  closedFrameUri: FaceImageUriSchema,
+  openEar: z.number().finite(),
+  closedEar: z.number().finite(),
+});
+
+export const ChallengeResponseSchema = z.object({
+  nonce: z.string().uuid(),
+  neutralFrameUri: FaceImageUriSchema,
+  responses: z.array(z.object({
+    challenge: z.enum(LIVENESS_CHALLENGE_KINDS),
+    frameUri: FaceImageUriSchema,
+  })).min(1).max(MAX_LIVENESS_CHALLENGES),
+});
+
+export const SpoofFramesSchema = z.array(FaceImageUriSchema).min(SPOOF_MIN_FRAMES).max(SPOOF_FRAME_COUNT);
+
+// `claimedEmail` es el segundo factor opcional para desempatar una identificación ambigua.
+export const FaceLoginSchema = FaceSampleInputSchema.extend({
+  claimedEmail: z.string().trim().email().optional(),
+  liveness: LivenessEvidenceSchema.optional(),
+  challengeResponse: ChallengeResponseSchema.optional(),
+  spoofFrames: SpoofFramesSchema.optional(),
+});
+export type FaceLoginInput = z.infer<typeof FaceLoginSchema>;
+
+// Verificación 1:1: el usuario indica la cuenta con su correo y el rostro se compara solo con ella.
+export const FaceVerifySchema = FaceSampleInputSchema.extend({
+  email: z.string().trim().email(),
+  liveness: LivenessEvidenceSchema.optional(),
+  challengeResponse: ChallengeResponseSchema.optional(),
+  spoofFrames: SpoofFramesSchema.optional(),
+});
+export type FaceVerifyInput = z.infer<typeof FaceVerifySchema>;
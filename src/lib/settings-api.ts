@@ -0,0 +1,30 @@
+import type { AppSettings, AppSettingsChanges, CalibrationReport, ModelIntegrityReport } from '@/types';
+import { apiRequest } from '@/lib/api-client';
+
+export async function fetchSettings(): Promise<AppSettings> {
+  const { settings } = await apiRequest<{ settings: AppSettings }>('/api/settings');
+  return settings;
+}
+
+// Con `confirmDescriptorChange`, el servidor acepta un cambio de detección que invalida las muestras
+// registradas; sin él responde 409.
+export async function saveSettings(changes: AppSettingsChanges, confirmDescriptorChange = false): Promise<AppSettings> {
+  const url = confirmDescriptorChange ? '/api/settings?confirmDescriptorChange=1' : '/api/settings';
+  const { settings } = await apiRequest<{ settings: AppSettings }>(url, {
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+  return settings;
+}
+
+// Solo administradores: calibración del umbral de coincidencia para la FAR objetivo.
+export async function fetchCalibration(targetFar: number): Promise<CalibrationReport> {
+  const { calibration } = await apiRequest<{ calibration: CalibrationReport }>(`/api/calibration?targetFar=${targetFar}`);
+  return calibration;
+}
+
+// Solo administradores: verificación de `public/models` contra su `integrity.json` firmado.
+export async function fetchModelIntegrity(): Promise<ModelIntegrityReport> {
+  const { report } = await apiRequest<{ report: ModelIntegrityReport }>('/api/model-integrity');
+  return report;
+}
@@ -0,0 +1,136 @@
+import type {
+  CapturedFrame,
+  ChallengeLivenessEvidence,
+  DescriptorMigrationReport,
+  DescriptorMigrationResult,
+  FaceIdentificationResult,
+  FaceVerificationResult,
+  LivenessChallenge,
+  LivenessEvidence,
+  UserProfile,
+  SignupOutcome,
+} from '@/types';
+import { apiRequest } from '@/lib/api-client';
+
+// Datos de una captura facial tal como los envía el cliente. El servidor recalcula el descriptor
+// desde la imagen y rechaza la petición si no coincide con `faceDescriptor`.
+export interface FaceFramePayload {
+  faceImageUri: string;
+  faceDescriptor: number[];
+}
+
+// En modo ráfaga se envían también los fotogramas válidos para que el servidor calcule la media.
+export interface FaceSamplePayload extends FaceFramePayload {
+  burstFrames?: FaceFramePayload[];
+}
+
+export function toFaceSamplePayload(faceImageUri: string, faceDescriptor: number[], burstFrames?: CapturedFrame[]): FaceSamplePayload {
+  return {
+    faceImageUri,
+    faceDescriptor,
+    burstFrames: burstFrames?.map(frame => ({ faceImageUri: frame.imageUri, faceDescriptor: frame.descriptor })),
+  };
+}
+
+// Usuario de la sesión del servidor; null si no hay sesión iniciada.
+export async function fetchSessionUser(): Promise<UserProfile | null> {
+  const { user } = await apiRequest<{ user: UserProfile | null }>('/api/auth/session');
+  return user;
+}
+
+export async function endSession(): Promise<void> {
+  await apiRequest<null>('/api/auth/session', { method: 'DELETE' });
+}
+
+export async function fetchUsers(): Promise<UserProfile[]> {
+  const { users } = await apiRequest<{ users: UserProfile[] }>('/api/users');
+  return users;
+}
+
+// Si el rostro coincide con otra cuenta, el servidor puede retener el registro para revisión en
+// lugar de crear la cuenta (según la configuración de la instalación).
+// Si la cuenta se crea, el servidor inicia la sesión con ella salvo que sea `legacyImport` (ver
+// CreateUserSchema).
+export async function createUser(input: { name: string; email: string; legacyImport?: boolean } & FaceSamplePayload): Promise<SignupOutcome> {
+  return apiRequest<SignupOutcome>('/api/users', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateUserFace(userId: string, input: FaceSamplePayload): Promise<UserProfile> {
+  const { user } = await apiRequest<{ user: UserProfile }>(`/api/users/${encodeURIComponent(userId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(input),
+  });
+  return user;
+}
+
+export async function addFaceSample(userId: string, input: FaceSamplePayload): Promise<UserProfile> {
+  const { user } = await apiRequest<{ user: UserProfile }>(`/api/users/${encodeURIComponent(userId)}/samples`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return user;
+}
+
+export async function removeFaceSample(userId: string, sampleId: string): Promise<UserProfile> {
+  const { user } = await apiRequest<{ user: UserProfile }>(
+    `/api/users/${encodeURIComponent(userId)}/samples/${encodeURIComponent(sampleId)}`,
+    { method: 'DELETE' }
+  );
+  return user;
+}
+
+// Evidencia de prueba de vida que acompaña a un intento de inicio de sesión.
+export interface LivenessPayload {
+  liveness?: LivenessEvidence;
+  challengeResponse?: ChallengeLivenessEvidence;
+  spoofFrames?: string[];
+}
+
+// Pide al servidor una secuencia de retos nueva; su nonce sirve para un único intento.
+export async function requestLivenessChallenge(): Promise<LivenessChallenge> {
+  const { challenge } = await apiRequest<{ challenge: LivenessChallenge }>('/api/auth/liveness-challenge', { method: 'POST' });
+  return challenge;
+}
+
+// Nonce de un solo uso para la evidencia de parpadeo del siguiente intento.
+export async function requestBlinkNonce(): Promise<LivenessChallenge> {
+  const { nonce } = await apiRequest<{ nonce: LivenessChallenge }>('/api/auth/blink-nonce', { method: 'POST' });
+  return nonce;
+}
+
+// Identificación 1:N en el servidor. Solo se recibe la decisión, su motivo y, si hay coincidencia, el id.
+// `claimedEmail` es el segundo factor para resolver un resultado ambiguo.
+export async function identifyFace(input: FaceSamplePayload & LivenessPayload & { claimedEmail?: string }): Promise<FaceIdentificationResult> {
+  return apiRequest<FaceIdentificationResult>('/api/auth/face-login', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+// Verificación 1:1 contra la cuenta del correo indicado.
+export async function verifyFace(input: FaceSamplePayload & LivenessPayload & { email: string }): Promise<FaceVerificationResult> {
+  return apiRequest<FaceVerificationResult>('/api/auth/face-verify', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+// Borra todos los usuarios del servidor. El servidor rechaza la petición si la sesión no es de un admin.
+export async function resetUserDatabase(): Promise<void> {
+  await apiRequest<null>('/api/users', { method: 'DELETE' });
+}
+
+// Solo administradores: muestras calculadas con otra versión del pipeline de descriptores.
+export async function fetchDescriptorMigrationReport(): Promise<DescriptorMigrationReport> {
+  const { report } = await apiRequest<{ report: DescriptorMigrationReport }>('/api/descriptor-migration');
+  return report;
+}
+
+// Recalcula en el servidor las muestras desactualizadas a partir de sus imágenes.
+export async function runDescriptorMigration(): Promise<DescriptorMigrationResult> {
+  const { result } = await apiRequest<{ result: DescriptorMigrationResult }>('/api/descriptor-migration', { method: 'POST' });
+  return result;
+}
@@ -0,0 +1,106 @@
+import type { DescriptorVersion, FaceSample, User } from '@/types';
+
+// Versión actual del esquema persistido de `User`. Cada cambio incompatible en la forma de los
+// usuarios guardados (servidor o caché de IndexedDB) debe subir este número y añadir una
+// migración al final de USER_MIGRATIONS.
+export const CURRENT_USER_SCHEMA_VERSION = 5;
+
+type PersistedUser = Record<string, unknown>;
+type PersistedSample = Record<string, unknown>;
+type UserMigration = (user: PersistedUser) => PersistedUser;
+
+// Pipeline con el que se enrolaron las muestras anteriores al versionado: el de
+// `DESCRIPTOR_PIPELINE_VERSION` 1 con el detector por defecto. Se copia aquí en lugar de derivarlo
+// de la configuración para que la migración no cambie si cambian los valores por defecto.
+const BASELINE_DESCRIPTOR_VERSION: DescriptorVersion = {
+  pipeline: 1,
+  recognitionModel: 'face_recognition_model',
+  landmarkModel: 'face_landmark_68_model',
+  detector: 'tiny',
+  inputSize: 320,
+  scoreThreshold: 0.5,
+};
+
+// USER_MIGRATIONS[n] convierte un registro de la versión n a la versión n + 1. Se ejecutan en
+// orden al cargar, por lo que nunca deben reordenarse ni eliminarse.
+const USER_MIGRATIONS: UserMigration[] = [
+  // 0 -> 1: registros sin `schemaVersion` de la época de localStorage.
+  user => ({
+    ...user,
+    isAdmin: user.isAdmin === true,
+    faceDescriptor: Array.isArray(user.faceDescriptor) && user.faceDescriptor.length > 0 ? user.faceDescriptor : undefined,
+  }),
+  // 1 -> 2: el descriptor único pasa a ser la primera muestra de la galería `faceSamples`.
+  ({ faceDescriptor, ...user }) => {
+    const samples: PersistedSample[] = [];
+    if (Array.isArray(faceDescriptor)) {
+      const createdAt = Number(user.id);
+      samples.push({
+        id: `${String(user.id)}-0`,
+        descriptor: faceDescriptor,
+        imageUri: typeof user.faceImageUri === 'string' ? user.faceImageUri : undefined,
+        // Los ids antiguos son `Date.now()` del momento del registro.
+        capturedAt: new Date(Number.isFinite(createdAt) ? createdAt : Date.now()).toISOString(),
+        source: 'signup',
+        quality: null,
+      });
+    }
+    return { ...user, faceSamples: samples };
+  },
+  // 2 -> 3: `quality` guardaba la confianza del detector; pasa a `detectionScore` y `quality` queda
+  // para la puntuación de calidad de captura, que no existía al enrolar esas muestras.
+  user => ({
+    ...user,
+    faceSamples: (Array.isArray(user.faceSamples) ? (user.faceSamples as PersistedSample[]) : []).map(sample => ({
+      ...sample,
+      detectionScore: typeof sample.quality === 'number' ? sample.quality : null,
+      quality: null,
+      qualityMetrics: null,
+    })),
+  }),
+  // 3 -> 4: se desconoce con qué modelos se calcularon los descriptores existentes. Quedan sin
+  // versión, fuera de las comparaciones, hasta que la migración de descriptores los recalcule.
+  user => ({
+    ...user,
+    faceSamples: (Array.isArray(user.faceSamples) ? (user.faceSamples as PersistedSample[]) : []).map(sample => ({
+      ...sample,
+      descriptorVersion: null,
+    })),
+  }),
+  // 4 -> 5: las muestras sin versión quedaban fuera de todas las comparaciones y sus usuarios no
+  // podían iniciar sesión. Se asume el pipeline base; si la instalación usaba otro detector, la
+  // migración de descriptores de /admin/users las recalcula.
+  user => ({
+    ...user,
+    faceSamples: (Array.isArray(user.faceSamples) ? (user.faceSamples as PersistedSample[]) : []).map(sample => ({
+      ...sample,
+      descriptorVersion: sample.descriptorVersion ?? BASELINE_DESCRIPTOR_VERSION,
+    })),
+  }),
+];
+
+// Las muestras de los registros pendientes no pasan por USER_MIGRATIONS: las retenidas antes del
+// versionado reciben aquí, al cargarlas, la misma versión base que la migración 4 -> 5.
+export function withBaselineDescriptorVersion(sample: FaceSample): FaceSample {
+  return sample.descriptorVersion ? sample : { ...sample, descriptorVersion: BASELINE_DESCRIPTOR_VERSION };
+}
+
+function getSchemaVersion(user: PersistedUser): number {
+  return typeof user.schemaVersion === 'number' ? user.schemaVersion : 0;
+}
+
+export function needsMigration(user: PersistedUser): boolean {
+  return getSchemaVersion(user) < CURRENT_USER_SCHEMA_VERSION;
+}
+
+export function migrateUser(raw: PersistedUser): User {
+  const version = getSchemaVersion(raw);
+  if (version > CURRENT_USER_SCHEMA_VERSION) {
+    throw new Error(`El usuario ${String(raw.id)} tiene la versión de esquema ${version}, más nueva que la soportada (${CURRENT_USER_SCHEMA_VERSION}).`);
+  }
+  let user = raw;
+  for (let v = version; v < CURRENT_USER_SCHEMA_VERSION; v++) {
+    user = { ...USER_MIGRATIONS[v](user), schemaVersion: v + 1 };
+  }
+  return user as unknown as User;
+}
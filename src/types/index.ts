@@ -1,10 +1,309 @@
 
+export type FaceSampleSource = 'signup' | 'admin';
+
+// Medidas de la evaluación de calidad de una captura, ver src/lib/face/quality.ts.
+export interface FaceQualityMetrics {
+  sharpness: number; // Varianza del laplaciano en la región del rostro
+  brightness: number; // Luminancia media, 0..255
+  contrast: number; // Desviación típica de la luminancia
+  faceSizeRatio: number; // Ancho del rostro / ancho del fotograma
+  yaw: number; // Grados, estimados a partir de los 68 landmarks
+  pitch: number;
+  roll: number;
+}
+
+export type FaceQualityIssue =
+  | 'blurry'
+  | 'too_dark'
+  | 'too_bright'
+  | 'low_contrast'
+  | 'face_too_small'
+  | 'head_turned'
+  | 'head_pitched'
+  | 'head_tilted';
+
+export interface FaceQualityReport {
+  score: number; // 0..1
+  passed: boolean; // Todos los umbrales superados
+  issues: FaceQualityIssue[];
+  metrics: FaceQualityMetrics;
+}
+
+// Qué produjo un descriptor. Los descriptores de versiones distintas (otra red de reconocimiento,
+// otro modelo de landmarks u otro detector, que cambian el recorte alineado) no son comparables.
+export interface DescriptorVersion {
+  pipeline: number; // DESCRIPTOR_PIPELINE_VERSION, ver src/lib/face/descriptor-version.ts
+  recognitionModel: string;
+  landmarkModel: string;
+  detector: FaceDetectorKind;
+  // Registrados para auditoría; no impiden comparar
+  inputSize: number;
+  scoreThreshold: number;
+}
+
+// Estado de las galerías respecto a la versión actual del pipeline de descriptores.
+export interface DescriptorMigrationReport {
+  currentVersion: DescriptorVersion;
+  totalSamples: number;
+  outdatedSamples: number; // Muestras sin versión o de otra versión, excluidas de las comparaciones
+  reenrollmentRequired: { userId: string; name: string; email: string }[]; // Sin ninguna muestra vigente
+}
+
+export interface DescriptorMigrationResult extends DescriptorMigrationReport {
+  rederived: number; // Muestras recalculadas a partir de su imagen
+  unrecoverable: number; // Muestras sin imagen o en las que ya no se detecta un rostro
+}
+
+// Estado de los pesos de `public/models` frente a su `integrity.json` firmado.
+export interface ModelIntegrityReport {
+  valid: boolean; // Firma correcta y todos los archivos listados coinciden
+  signedAt: string | null; // null si integrity.json falta o su firma no es válida
+  checkedFiles: number;
+  failures: { file: string; reason: string }[];
+}
+
+// Una muestra de enrolamiento dentro de la galería facial de un usuario.
+export interface FaceSample {
+  id: string;
+  descriptor: number[]; // Facial descriptor for recognition
+  descriptorVersion: DescriptorVersion | null; // null solo a mitad de las migraciones de esquemas antiguos
+  imageUri?: string; // Captured image data URI the descriptor was computed from
+  capturedAt: string; // ISO 8601
+  source: FaceSampleSource;
+  quality: number | null; // Capture quality score 0..1, null for samples enrolled before it was recorded
+  qualityMetrics: FaceQualityMetrics | null;
+  detectionScore: number | null; // Detector confidence computed by the server
+}
+
 export interface User {
+  schemaVersion: number; // Versión del esquema persistido, ver src/lib/user-schema.ts
   id: string;
   name: string;
   email: string;
   faceImageUri: string; // Original captured image data URI
   enhancedFaceImageUri: string; // AI enhanced image data URI, used for login
-  faceDescriptor?: number[]; // Facial descriptor for recognition
+  faceSamples: FaceSample[]; // Gallery of enrollment samples, all used for matching
   isAdmin?: boolean;
 }
+
+// Todo el perfil salvo los descriptores faciales, que nunca salen del servidor. Incluye las imágenes
+// faciales, así que solo lo reciben el propio usuario (con su sesión) y los administradores.
+export type ProfileFaceSample = Omit<FaceSample, 'descriptor'>;
+
+export interface UserProfile extends Omit<User, 'faceSamples'> {
+  faceSamples: ProfileFaceSample[];
+}
+
+// Proyección pública: sin descriptores ni imágenes, que podrían reenviarse en un inicio de sesión facial.
+export type PublicFaceSample = Omit<ProfileFaceSample, 'imageUri'>;
+
+export interface PublicUser extends Omit<UserProfile, 'faceImageUri' | 'enhancedFaceImageUri' | 'faceSamples'> {
+  faceSamples: PublicFaceSample[];
+}
+
+// Un fotograma de una captura en ráfaga, con el descriptor calculado en el navegador.
+export interface CapturedFrame {
+  imageUri: string;
+  descriptor: number[];
+  detectionScore: number;
+  qualityScore: number; // FaceQualityReport.score del fotograma
+}
+
+// Evidencia de la prueba de vida por parpadeo: un fotograma con los ojos abiertos y el más cerrado
+// del parpadeo, en espejo como la captura. El servidor recalcula el EAR de ambos. `nonce` es el que
+// emitió el servidor para el intento (una LivenessChallenge sin retos): caduca y vale una sola vez.
+export interface BlinkLivenessEvidence {
+  method: 'blink';
+  nonce: string;
+  openFrameUri: string;
+  closedFrameUri: string;
+  openEar: number; // Calculados en el navegador, solo informativos
+  closedEar: number;
+}
+
+export type LivenessEvidence = BlinkLivenessEvidence;
+
+// Retos de la prueba de vida activa. Los giros se expresan desde el punto de vista del usuario.
+export type LivenessChallengeKind = 'turn_left' | 'turn_right' | 'smile' | 'open_mouth' | 'raise_eyebrows';
+
+// Secuencia aleatoria de retos emitida por el servidor para un intento de inicio de sesión. El
+// nonce es de un solo uso, así que una grabación de un intento anterior no sirve para otro.
+export interface LivenessChallenge {
+  nonce: string;
+  challenges: LivenessChallengeKind[];
+  timeoutMs: number; // Tiempo máximo para cumplir cada reto
+  expiresAt: string; // ISO 8601
+}
+
+// Respuesta a una LivenessChallenge: un fotograma con expresión neutra de referencia y uno por
+// reto, en espejo como la captura. El servidor repite la evaluación sobre cada fotograma.
+export interface ChallengeLivenessEvidence {
+  nonce: string;
+  neutralFrameUri: string;
+  responses: { challenge: LivenessChallengeKind; frameUri: string }[];
+}
+
+// Información adicional que FaceCapture entrega junto con la imagen y el descriptor.
+export interface FaceCaptureDetails {
+  detectionScore: number; // En ráfaga, la del mejor fotograma
+  burstFrames?: CapturedFrame[]; // Solo en modo ráfaga: los fotogramas que superaron el filtro de confianza
+  liveness?: LivenessEvidence; // Solo si FaceCapture exigió prueba de vida
+  challengeResponse?: ChallengeLivenessEvidence; // Solo si FaceCapture recibió una LivenessChallenge
+  spoofFrames?: string[]; // Secuencia de la vista previa para el detector de ataques de presentación
+}
+
+// Resultado estructurado de una identificación 1:N en el servidor.
+export type FaceMatchDecision = 'match' | 'no_match' | 'ambiguous';
+export type FaceMatchReason =
+  | 'matched' // El mejor candidato está bajo el umbral y separado del segundo
+  | 'second_factor_verified' // Era ambiguo, pero el correo confirmado corresponde a un candidato
+  | 'second_factor_mismatch' // Era ambiguo y el correo confirmado no corresponde a ningún candidato
+  | 'above_threshold' // Ningún usuario está bajo el umbral de coincidencia
+  | 'ambiguous_margin'; // El 1.º y el 2.º candidato están demasiado cerca entre sí
+
+export interface FaceMatchCandidate {
+  userId: string;
+  distance: number; // Distancia euclídea a la muestra más cercana de la galería del usuario
+  falseMatchProbability: number | null; // Estimada con la calibración; null si aún no hay datos suficientes
+}
+
+// Lo que recibe el navegador: solo la decisión y su motivo. Los candidatos, las distancias y los
+// umbrales se quedan en el registro del servidor; servirían para afinar un ataque intento a intento.
+export interface FaceIdentificationResult {
+  decision: FaceMatchDecision;
+  reason: FaceMatchReason;
+  userId: string | null; // Solo cuando decision === 'match'
+}
+
+// Resultado de una verificación 1:1: el rostro se compara solo con la galería del usuario indicado.
+export interface FaceVerificationResult {
+  decision: Exclude<FaceMatchDecision, 'ambiguous'>;
+  reason: 'verified' | 'above_threshold';
+  userId: string | null; // Solo cuando decision === 'match'
+}
+
+// Distancias observadas de un inicio de sesión aceptado: la del usuario reconocido (genuina) y las
+// del resto de usuarios (impostoras). Alimentan la calibración junto con las galerías.
+export interface MatchObservation {
+  recordedAt: string; // ISO 8601
+  mode: 'identification' | 'verification';
+  descriptorVersion: DescriptorVersion; // Solo se usan las observaciones de la versión vigente
+  genuine: number;
+  impostors: number[];
+}
+
+// Resumen de una distribución de distancias, que la calibración modela como una normal.
+export interface DistanceDistribution {
+  count: number;
+  mean: number;
+  stdDev: number;
+}
+
+export interface DistanceCalibration {
+  genuine: DistanceDistribution;
+  impostor: DistanceDistribution;
+  reliable: boolean; // Hay pares suficientes de ambos tipos para que las estimaciones signifiquen algo
+}
+
+// Lo que ve el administrador en /admin/settings para elegir el umbral de coincidencia.
+export interface CalibrationOperatingPoint {
+  threshold: number;
+  far: number | null; // null si la calibración no es fiable
+  frr: number | null;
+}
+
+export interface CalibrationReport {
+  calibration: DistanceCalibration;
+  sources: { enrollmentGenuine: number; enrollmentImpostor: number; loginObservations: number };
+  targetFar: number;
+  recommendedThreshold: number | null; // null si la calibración no es fiable
+  expectedFrr: number | null; // Tasa de falso rechazo estimada con el umbral recomendado
+  // Tasas estimadas con los umbrales configurados de identificación y de verificación
+  current: Record<'identification' | 'verification', CalibrationOperatingPoint>;
+  table: { distance: number; falseMatchProbability: number }[]; // Correspondencia distancia -> probabilidad
+}
+
+// Cuenta existente con la que coincide el rostro de un registro nuevo.
+export interface FaceCollision {
+  userId: string;
+  distance: number;
+}
+
+// Registro retenido para revisión del administrador porque el rostro ya pertenece a otra cuenta.
+export interface PendingSignup {
+  id: string;
+  name: string;
+  email: string;
+  faceImageUri: string;
+  enhancedFaceImageUri: string;
+  faceSample: FaceSample;
+  createdAt: string; // ISO 8601
+  collision: FaceCollision;
+}
+
+export type PublicPendingSignup = Omit<PendingSignup, 'faceSample'>;
+
+// Respuesta de `/api/users` al registrarse: la cuenta creada o el aviso de que espera revisión.
+export type SignupOutcome =
+  | { status: 'created'; user: PublicUser }
+  | { status: 'pending_review'; pendingSignupId: string };
+
+// Configuración de la instalación, editable por administradores en /admin/settings.
+export interface RecognitionSettings {
+  matchThreshold: number; // Distancia máxima para aceptar una coincidencia 1:N o un rostro duplicado
+  verificationThreshold: number; // Distancia máxima en la verificación 1:1; no mayor que matchThreshold
+  ambiguityMargin: number; // Diferencia mínima de distancia exigida entre el 1.º y el 2.º candidato
+}
+
+// identification: 1:N contra todos los usuarios; verification: el usuario indica su cuenta y se
+// compara 1:1; both: el usuario elige el modo en el formulario de inicio de sesión.
+export type LoginPolicy = 'identification' | 'verification' | 'both';
+
+export interface LoginSettings {
+  policy: LoginPolicy;
+}
+
+// Qué hacer cuando el rostro de un registro nuevo coincide con una cuenta existente.
+export type DuplicateFacePolicy = 'block' | 'review';
+
+export interface EnrollmentSettings {
+  duplicateFacePolicy: DuplicateFacePolicy;
+}
+
+export type FaceDetectorKind = 'tiny' | 'ssd' | 'mtcnn';
+
+// Qué hacer con varios rostros en el mismo fotograma: rechazar la captura, o usar el más grande o el
+// más centrado.
+export type MultipleFacePolicy = 'reject' | 'largest' | 'central';
+
+// Backend de TensorFlow.js con el que el worker del navegador ejecuta los modelos. 'auto' elige el
+// más rápido de los disponibles tras una prueba corta al iniciar.
+export type TfBackend = 'webgl' | 'wasm' | 'cpu';
+export type TfBackendPreference = 'auto' | TfBackend;
+
+// Detector usado por FaceCapture (vista previa y captura) y por el pipeline del servidor.
+export interface DetectorSettings {
+  kind: FaceDetectorKind; // TinyFaceDetector, SSD MobileNet v1 o MTCNN
+  inputSize: number; // Solo TinyFaceDetector: múltiplo de 32, más grande es más preciso y más lento
+  scoreThreshold: number; // Confianza mínima de detección
+  useTinyLandmarks: boolean; // face_landmark_68_tiny en lugar del modelo completo de 68 puntos
+  multipleFacePolicy: MultipleFacePolicy;
+  backend: TfBackendPreference; // Solo navegador; el servidor usa siempre el backend CPU
+}
+
+export interface LivenessSettings {
+  requireBlink: boolean; // Exigir un parpadeo antes de capturar en el inicio de sesión
+  challengeCount: number; // Retos aleatorios por inicio de sesión; 0 los desactiva
+  spoofDetection: boolean; // Analizar una secuencia de fotogramas en busca de fotos o pantallas
+  spoofThreshold: number; // Puntuación de ataque (0..1) a partir de la cual se rechaza el intento
+}
+
+export interface AppSettings {
+  recognition: RecognitionSettings;
+  liveness: LivenessSettings;
+  login: LoginSettings;
+  enrollment: EnrollmentSettings;
+  detection: DetectorSettings;
+}
+
+export type AppSettingsChanges = { [Section in keyof AppSettings]?: Partial<AppSettings[Section]> };
@@ -0,0 +1,198 @@
+import * as faceapi from 'face-api.js';
+import type { DetectorSettings } from '@/types';
+import { createDetectorOptions, EXPRESSION_MODEL_NAME, getRequiredModels } from '@/lib/face/detector';
+import type { BackendSelection, CropRequest, DescribedFace, DescribeFacesRequest, DetectFacesRequest, FaceCrop, FaceWorkerMessage, FaceWorkerResponse, FrameDescription, FrameDetection, LoadModelsRequest, WorkerFace, WorkerFrame } from '@/lib/face/worker-protocol';
+import { ensureNetLoaded } from '@/workers/model-registry';
+import { ensureBackend } from '@/workers/tf-backend';
+import { ModelIntegrityError } from '@/lib/face/model-integrity';
+import { assessFaceQuality } from '@/lib/face/quality';
+import type { RgbaRaster } from '@/lib/face/quality';
+import { selectFace } from '@/lib/face/face-selection';
+import { faceCropRegion, regionContainsFace } from '@/lib/face/presentation-attack';
+
+// Carga de modelos, detección, landmarks, descriptores y evaluación de calidad fuera del hilo
+// principal. FaceCapture le envía los fotogramas de la cámara (ver src/lib/face/worker-protocol.ts)
+// y solo dibuja los resultados; los píxeles solo vuelven recortados, para los fotogramas que
+// conserva como evidencia de la prueba de vida.
+
+// En un worker no hay DOM: face-api.js trabaja sobre un OffscreenCanvas. Las imágenes y los videos
+// no existen aquí; todos los fotogramas llegan como ImageBitmap o VideoFrame.
+class UnavailableMedia {}
+
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: UnavailableMedia as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: UnavailableMedia as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => {
+    throw new Error('createImageElement - not available in the face detection worker');
+  },
+  fetch: (url, init) => fetch(url, init),
+  readFile: () => {
+    throw new Error('readFile - filesystem not available in the face detection worker');
+  },
+});
+
+function post(response: FaceWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+// Dibuja el fotograma en un canvas propio de la petición (pueden solaparse varias) y lo libera; el
+// canvas es la entrada de face-api.js.
+function drawFrame(frame: WorkerFrame, mirror: boolean): OffscreenCanvas {
+  const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+  const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  try {
+    if (!context) throw new Error('OffscreenCanvas 2D context not available');
+    if (mirror) {
+      context.translate(width, 0);
+      context.scale(-1, 1);
+    }
+    context.drawImage(frame, 0, 0, width, height);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+  } finally {
+    frame.close();
+  }
+  return canvas;
+}
+
+function readRaster(canvas: OffscreenCanvas, region: { x: number; y: number; width: number; height: number } = { x: 0, y: 0, width: canvas.width, height: canvas.height }): ImageData | null {
+  return canvas.getContext('2d', { willReadFrequently: true })?.getImageData(region.x, region.y, region.width, region.height) ?? null;
+}
+
+// Los resultados de face-api.js son clases; al worker solo le interesa devolver datos planos.
+function toBox({ x, y, width, height }: faceapi.Box) {
+  return { x, y, width, height };
+}
+
+function toPoints(landmarks: faceapi.FaceLandmarks68) {
+  return landmarks.positions.map(p => ({ x: p.x, y: p.y }));
+}
+
+function toWorkerFace(face: { detection: faceapi.FaceDetection; landmarks?: faceapi.FaceLandmarks68; expressions?: faceapi.FaceExpressions }, raster: RgbaRaster | null): WorkerFace {
+  const box = toBox(face.detection.box);
+  const landmarks = face.landmarks ? toPoints(face.landmarks) : null;
+  return {
+    box,
+    score: face.detection.score,
+    landmarks,
+    happy: face.expressions?.happy ?? null,
+    quality: landmarks && raster ? assessFaceQuality(raster, box, landmarks) : null,
+  };
+}
+
+function toDescribedFace(face: faceapi.WithFaceDescriptor<faceapi.WithFaceLandmarks<{ detection: faceapi.FaceDetection }>>, raster: RgbaRaster | null): DescribedFace {
+  const box = toBox(face.detection.box);
+  const landmarks = toPoints(face.landmarks);
+  return {
+    box,
+    score: face.detection.score,
+    landmarks,
+    descriptor: Array.from(face.descriptor),
+    quality: raster ? assessFaceQuality(raster, box, landmarks) : null,
+  };
+}
+
+
+async function loadModels(id: number, { detector, withExpressions }: LoadModelsRequest): Promise<BackendSelection> {
+  // El backend se elige antes de cargar los pesos, para crearlos directamente en él.
+  const selection = await ensureBackend(detector.backend);
+  const [detectorModel, ...descriptorModels] = getRequiredModels(detector);
+  if (withExpressions) {
+    descriptorModels.push({ net: faceapi.nets.faceExpressionNet, modelName: EXPRESSION_MODEL_NAME });
+  }
+  const loadModel = async ({ net, modelName }: typeof detectorModel) => {
+    await ensureNetLoaded(net, modelName, progress => post({ type: 'model_progress', progress }));
+    post({ id, type: 'model_loaded', modelName });
+  };
+  // El detector primero: la vista previa puede empezar a buscar rostros mientras llega el resto.
+  await loadModel(detectorModel);
+  await Promise.all(descriptorModels.map(loadModel));
+  return selection;
+}
+
+async function detectFaces(canvas: OffscreenCanvas, detector: DetectorSettings, withLandmarks: boolean, withExpressions: boolean): Promise<WorkerFace[]> {
+  const detection = faceapi.detectAllFaces(canvas as unknown as HTMLCanvasElement, createDetectorOptions(detector));
+  if (!withLandmarks) return (await detection).map(face => toWorkerFace({ detection: face }, null));
+  const landmarks = detection.withFaceLandmarks(detector.useTinyLandmarks);
+  // Las expresiones solo hacen falta en los pasos de los retos que las usan.
+  const faces = withExpressions ? await landmarks.withFaceExpressions() : await landmarks;
+  // La calidad se evalúa sobre el fotograma completo, que solo se lee si hay rostros.
+  const raster = faces.length > 0 ? readRaster(canvas) : null;
+  return faces.map(face => toWorkerFace(face, raster));
+}
+
+// Recorta el fotograma alrededor del rostro que elige la política de varios rostros, el mismo que
+// elige FaceCapture con el resultado.
+function cropSelectedFace(canvas: OffscreenCanvas, faces: WorkerFace[], detector: DetectorSettings, { region }: CropRequest): FaceCrop | null {
+  const selection = selectFace(faces, detector.multipleFacePolicy, canvas, face => face.box);
+  if (selection.status !== 'selected') return null;
+  const cropRegion = region && regionContainsFace(region, selection.face.box) ? region : faceCropRegion(selection.face.box, canvas);
+  const image = readRaster(canvas, cropRegion);
+  return image ? { image, region: cropRegion } : null;
+}
+
+async function detect({ frame, detector, withLandmarks, withExpressions, crop }: DetectFacesRequest): Promise<FrameDetection> {
+  const canvas = drawFrame(frame, false);
+  const faces = await detectFaces(canvas, detector, withLandmarks, withExpressions);
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    faces,
+    crop: crop ? cropSelectedFace(canvas, faces, detector, crop) : null,
+  };
+}
+
+async function toDataUrl(canvas: OffscreenCanvas): Promise<string> {
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function describe({ frame, detector, mirror }: DescribeFacesRequest): Promise<FrameDescription> {
+  const canvas = drawFrame(frame, mirror);
+  const faces = await faceapi.detectAllFaces(canvas as unknown as HTMLCanvasElement, createDetectorOptions(detector))
+    .withFaceLandmarks(detector.useTinyLandmarks)
+    .withFaceDescriptors();
+  const raster = faces.length > 0 ? readRaster(canvas) : null;
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    faces: faces.map(face => toDescribedFace(face, raster)),
+    imageUri: await toDataUrl(canvas),
+  };
+}
+
+self.onmessage = async (event: MessageEvent<FaceWorkerMessage>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'load':
+        post({ id: request.id, type: 'result', result: await loadModels(request.id, request) });
+        break;
+      case 'detect': {
+        const result = await detect(request);
+        post({ id: request.id, type: 'result', result }, result.crop ? [result.crop.image.data.buffer] : []);
+        break;
+      }
+      case 'describe': {
+        post({ id: request.id, type: 'result', result: await describe(request) });
+        break;
+      }
+    }
+  } catch (error) {
+    console.error(`FaceDetectionWorker: '${request.type}' request failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    post(error instanceof ModelIntegrityError
+      ? { id: request.id, type: 'error', message, integrityFile: error.file }
+      : { id: request.id, type: 'error', message });
+  }
+};
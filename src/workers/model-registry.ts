@@ -0,0 +1,221 @@
+import * as faceapi from 'face-api.js';
+import { MODEL_BASE_URL } from '@/lib/face/worker-protocol';
+import type { ModelLoadProgress } from '@/lib/face/worker-protocol';
+import { MODEL_INTEGRITY_FILE, ModelIntegrityError, verifyIntegrityManifest, verifyModelFile } from '@/lib/face/model-integrity';
+import type { ModelIntegrityManifest } from '@/lib/face/model-integrity';
+
+// Registro de los modelos del worker de detección: cada red se descarga y se carga una sola vez,
+// aunque varios FaceCapture la pidan a la vez. Los manifiestos y fragmentos de pesos se guardan con
+// la Cache API, así que en visitas posteriores (o sin conexión, en un quiosco) no se descargan de
+// nuevo. Es el equivalente en el navegador de `loadNetFromDisk` en src/lib/server/face-pipeline.ts.
+// Cada archivo, descargado o guardado, se comprueba contra `integrity.json` antes de usarlo.
+
+// Subir la versión descarta todo lo guardado por versiones anteriores.
+export const MODEL_CACHE_NAME = 'face-models-v1';
+
+interface WeightsManifestGroup {
+  paths: string[];
+  weights: Parameters<typeof faceapi.tf.io.decodeWeights>[1];
+}
+
+// Bytes por valor de cada tipo de peso, para conocer el tamaño de la descarga antes de empezarla.
+const DTYPE_BYTES: Record<string, number> = { float32: 4, int32: 4, uint16: 2, uint8: 1, bool: 1 };
+
+function modelFileUrl(file: string): string {
+  return `${MODEL_BASE_URL}/${file}`;
+}
+
+function expectedBytes(manifest: WeightsManifestGroup[]): number {
+  return manifest.reduce((total, group) => total + group.weights.reduce((sum, weight) => {
+    const dtype = weight.quantization?.dtype ?? weight.dtype;
+    return sum + (DTYPE_BYTES[dtype] ?? 4) * weight.shape.reduce((size, dim) => size * dim, 1);
+  }, 0), 0);
+}
+
+// La Cache API solo existe en contextos seguros (HTTPS o localhost); sin ella se descarga siempre.
+async function openModelCache(): Promise<Cache | null> {
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(MODEL_CACHE_NAME);
+  } catch {
+    return null;
+  }
+}
+
+// Los manifiestos se piden siempre a la red (son pequeños) para detectar pesos actualizados en
+// `public/models`; sin conexión se usa la copia guardada. Devuelve también la copia anterior.
+async function loadRevalidated(cache: Cache | null, file: string): Promise<{ data: ArrayBuffer; previous: ArrayBuffer | null }> {
+  const url = modelFileUrl(file);
+  const cached = await cache?.match(url);
+  const previous = cached ? await cached.arrayBuffer() : null;
+  try {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+    return { data: await response.arrayBuffer(), previous };
+  } catch (error) {
+    if (!previous) throw error;
+    console.warn(`ModelRegistry: ${file} unavailable, using cached copy.`);
+    return { data: previous, previous };
+  }
+}
+
+function sameBytes(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  const left = new Uint8Array(a);
+  const right = new Uint8Array(b);
+  return left.every((byte, i) => byte === right[i]);
+}
+
+let integrityPromise: Promise<ModelIntegrityManifest> | null = null;
+
+// `integrity.json` se verifica con la clave pública de la aplicación, venga de la red o de la caché.
+function loadIntegrityManifest(cache: Cache | null): Promise<ModelIntegrityManifest> {
+  if (!integrityPromise) {
+    integrityPromise = (async () => {
+      const { data } = await loadRevalidated(cache, MODEL_INTEGRITY_FILE);
+      let raw: unknown = null;
+      try {
+        raw = JSON.parse(new TextDecoder().decode(data));
+      } catch {
+        // verifyIntegrityManifest rechaza el null con un error de formato.
+      }
+      const manifest = await verifyIntegrityManifest(raw);
+      await cache?.put(modelFileUrl(MODEL_INTEGRITY_FILE), new Response(data, { headers: { 'Content-Type': 'application/json' } }));
+      return manifest;
+    })().catch(error => {
+      integrityPromise = null;
+      throw error;
+    });
+  }
+  return integrityPromise;
+}
+
+// Si el manifiesto de pesos cambió, se descartan los fragmentos guardados del anterior.
+async function loadManifest(cache: Cache | null, integrity: ModelIntegrityManifest, modelName: string): Promise<WeightsManifestGroup[]> {
+  const file = `${modelName}-weights_manifest.json`;
+  const { data, previous } = await loadRevalidated(cache, file);
+  await verifyModelFile(integrity, file, data);
+  if (cache && !(previous && sameBytes(previous, data))) {
+    if (previous) {
+      try {
+        const stale: WeightsManifestGroup[] = JSON.parse(new TextDecoder().decode(previous));
+        await Promise.all(stale.flatMap(group => group.paths).map(path => cache.delete(modelFileUrl(path))));
+      } catch {
+        // Una copia guardada ilegible no impide cargar la nueva.
+      }
+      console.log(`ModelRegistry: ${modelName} manifest changed, cached shards discarded.`);
+    }
+    await cache.put(modelFileUrl(file), new Response(data, { headers: { 'Content-Type': 'application/json' } }));
+  }
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+async function readBody(response: Response, onBytes: (bytes: number) => void): Promise<ArrayBuffer> {
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onBytes(buffer.byteLength);
+    return buffer;
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+    onBytes(value.byteLength);
+  }
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data.buffer;
+}
+
+async function loadShard(
+  cache: Cache | null,
+  integrity: ModelIntegrityManifest,
+  path: string,
+  onBytes: (bytes: number, fromCache: boolean) => void,
+): Promise<ArrayBuffer> {
+  const url = modelFileUrl(path);
+  const cached = await cache?.match(url);
+  if (cached) {
+    const buffer = await cached.arrayBuffer();
+    try {
+      await verifyModelFile(integrity, path, buffer);
+      onBytes(buffer.byteLength, true);
+      return buffer;
+    } catch (error) {
+      if (!(error instanceof ModelIntegrityError)) throw error;
+      // Una copia guardada que no coincide se descarta y se vuelve a descargar.
+      console.warn(`ModelRegistry: cached ${path} failed integrity check, downloading again.`);
+      await cache?.delete(url);
+    }
+  }
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  const buffer = await readBody(response, bytes => onBytes(bytes, false));
+  await verifyModelFile(integrity, path, buffer);
+  await cache?.put(url, new Response(buffer, { headers: { 'Content-Type': 'application/octet-stream' } }));
+  return buffer;
+}
+
+function concatBuffers(buffers: ArrayBuffer[]): ArrayBuffer {
+  const data = new Uint8Array(buffers.reduce((total, buffer) => total + buffer.byteLength, 0));
+  let offset = 0;
+  for (const buffer of buffers) {
+    data.set(new Uint8Array(buffer), offset);
+    offset += buffer.byteLength;
+  }
+  return data.buffer;
+}
+
+async function loadNet(net: faceapi.NeuralNetwork<unknown>, modelName: string, report: (progress: ModelLoadProgress) => void): Promise<void> {
+  const cache = await openModelCache();
+  const integrity = await loadIntegrityManifest(cache);
+  const manifest = await loadManifest(cache, integrity, modelName);
+  const totalBytes = expectedBytes(manifest);
+  let loadedBytes = 0;
+  let fromCache = true;
+  let reportedPercent = -1;
+  const onBytes = (bytes: number, cached: boolean) => {
+    loadedBytes += bytes;
+    fromCache &&= cached;
+    // Un aviso por punto porcentual: los fragmentos llegan en trozos de pocos KB.
+    const percent = totalBytes > 0 ? Math.min(100, Math.floor((loadedBytes / totalBytes) * 100)) : 100;
+    if (percent === reportedPercent) return;
+    reportedPercent = percent;
+    report({ modelName, status: 'downloading', loadedBytes, totalBytes, fromCache });
+  };
+
+  const weightMap: faceapi.tf.NamedTensorMap = {};
+  for (const group of manifest) {
+    const shards = await Promise.all(group.paths.map(path => loadShard(cache, integrity, path, onBytes)));
+    Object.assign(weightMap, faceapi.tf.io.decodeWeights(concatBuffers(shards), group.weights));
+  }
+  net.loadFromWeightMap(weightMap);
+  report({ modelName, status: 'ready', loadedBytes, totalBytes, fromCache });
+}
+
+// Un modelo por nombre de pesos: cambiar de detector en la configuración solo carga el nuevo.
+const modelPromises = new Map<string, Promise<void>>();
+
+export function ensureNetLoaded(net: faceapi.NeuralNetwork<unknown>, modelName: string, report: (progress: ModelLoadProgress) => void): Promise<void> {
+  let promise = modelPromises.get(modelName);
+  if (!promise) {
+    promise = (net.isLoaded ? Promise.resolve() : loadNet(net, modelName, report))
+      .then(() => console.log(`ModelRegistry: ${modelName} loaded.`))
+      .catch(error => {
+        // Permite reintentar en la siguiente petición (p. ej. si faltaba un fragmento en public/models).
+        modelPromises.delete(modelName);
+        report({ modelName, status: 'failed', loadedBytes: 0, totalBytes: 0, fromCache: false });
+        throw error;
+      });
+    modelPromises.set(modelName, promise);
+  }
+  return promise;
+}
@@ -0,0 +1,129 @@
+import * as faceapi from 'face-api.js';
+import { setWasmPath } from '@tensorflow/tfjs-backend-wasm';
+import type { TfBackend, TfBackendPreference } from '@/types';
+import type { BackendSelection } from '@/lib/face/worker-protocol';
+import { patchWasmFill } from '@/workers/tfjs-wasm-fill';
+
+// Backend de TensorFlow.js del worker de detección. Sin elegirlo, face-api.js usa el que tfjs inicia
+// por defecto (WebGL), que en equipos sin WebGL 2 falla o recurre a CPU. Aquí se comprueba qué
+// backends puede iniciar el navegador, se mide cada uno con una prueba corta de las operaciones del
+// detector y se usa el más rápido; CPU queda como último recurso. El administrador puede fijar uno
+// en la configuración de detección.
+//
+// face-api.js 0.22 fija tfjs-core 1.7, cuyo backend WASM es de un solo hilo y sin SIMD.
+
+const tf = faceapi.tf;
+
+// Binario del backend WASM, copiado de @tensorflow/tfjs-backend-wasm al instalar las dependencias
+// (src/cli/copy-tfjs-wasm.mjs), de modo que siempre coincide con la versión instalada.
+export const WASM_BINARY_URL = '/tfjs/tfjs-backend-wasm.wasm';
+
+// Candidatos de la selección automática; ante un empate gana el primero.
+const AUTO_CANDIDATES: TfBackend[] = ['webgl', 'wasm'];
+const BENCHMARK_RUNS = 3;
+const BENCHMARK_INPUT_SIZE = 160;
+
+// Cabecera de un módulo WebAssembly vacío: si el navegador lo valida, puede ejecutar el backend WASM.
+const WASM_MODULE_HEADER = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+
+setWasmPath(WASM_BINARY_URL);
+patchWasmFill();
+
+function isAvailable(backend: TfBackend): boolean {
+  try {
+    switch (backend) {
+      case 'webgl':
+        // En un worker, tfjs 1.7 solo crea contextos WebGL 2 sobre OffscreenCanvas.
+        return typeof OffscreenCanvas !== 'undefined' && new OffscreenCanvas(1, 1).getContext('webgl2') !== null;
+      case 'wasm':
+        return typeof WebAssembly === 'object' && WebAssembly.validate(WASM_MODULE_HEADER);
+      default:
+        return true;
+    }
+  } catch {
+    return false;
+  }
+}
+
+// Activa el backend y mide los milisegundos por pasada de una red pequeña con las operaciones del
+// detector (convolución, pooling y convolución separable). null si no se pudo iniciar o falló.
+async function benchmark(backend: TfBackend): Promise<number | null> {
+  const tensors: faceapi.tf.Tensor[] = [];
+  try {
+    if (!(await tf.setBackend(backend))) return null;
+    await tf.ready();
+    const input = tf.randomUniform([1, BENCHMARK_INPUT_SIZE, BENCHMARK_INPUT_SIZE, 3]) as faceapi.tf.Tensor4D;
+    const filter = tf.randomNormal([3, 3, 3, 16]) as faceapi.tf.Tensor4D;
+    const depthwise = tf.randomNormal([3, 3, 16, 1]) as faceapi.tf.Tensor4D;
+    const pointwise = tf.randomNormal([1, 1, 16, 32]) as faceapi.tf.Tensor4D;
+    tensors.push(input, filter, depthwise, pointwise);
+
+    const pass = async () => {
+      const output = tf.tidy(() => {
+        const features = tf.maxPool(tf.relu(tf.conv2d(input, filter, 1, 'same')), 2, 2, 'same');
+        return tf.sigmoid(tf.separableConv2d(features, depthwise, pointwise, 1, 'same'));
+      });
+      await output.data();
+      output.dispose();
+    };
+    // La primera pasada compila shaders o instancia el módulo WASM; no cuenta.
+    await pass();
+    const start = performance.now();
+    for (let run = 0; run < BENCHMARK_RUNS; run++) {
+      await pass();
+    }
+    return (performance.now() - start) / BENCHMARK_RUNS;
+  } catch (error) {
+    console.warn(`TfBackend: '${backend}' benchmark failed:`, error);
+    return null;
+  } finally {
+    tensors.forEach(tensor => tensor.dispose());
+  }
+}
+
+async function selectBackend(preference: TfBackendPreference): Promise<BackendSelection> {
+  const benchmarkMs: BackendSelection['benchmarkMs'] = {};
+  const measure = async (backend: TfBackend) => {
+    const ms = isAvailable(backend) ? await benchmark(backend) : null;
+    benchmarkMs[backend] = ms;
+    return ms;
+  };
+
+  if (preference !== 'auto') {
+    if ((await measure(preference)) !== null) {
+      console.log(`TfBackend: using pinned backend '${preference}' (${benchmarkMs[preference]!.toFixed(1)} ms/pass).`);
+      return { backend: preference, preference, pinnedUnavailable: false, benchmarkMs };
+    }
+    console.warn(`TfBackend: pinned backend '${preference}' unavailable, selecting automatically.`);
+  }
+
+  let selected: TfBackend = 'cpu';
+  let selectedMs = Infinity;
+  for (const backend of AUTO_CANDIDATES.filter(candidate => candidate !== preference)) {
+    const ms = await measure(backend);
+    if (ms !== null && ms < selectedMs) {
+      selected = backend;
+      selectedMs = ms;
+    }
+  }
+  await tf.setBackend(selected);
+  await tf.ready();
+  console.log(`TfBackend: selected '${selected}'`, benchmarkMs);
+  return { backend: selected, preference, pinnedUnavailable: preference !== 'auto', benchmarkMs };
+}
+
+let selectionPromise: Promise<BackendSelection> | null = null;
+let selectionPreference: TfBackendPreference | null = null;
+
+// Elige el backend una vez por worker, antes de cargar los modelos. Si el administrador cambia la
+// preferencia, se vuelve a elegir; tfjs traslada los pesos ya cargados al nuevo backend al usarlos.
+export function ensureBackend(preference: TfBackendPreference): Promise<BackendSelection> {
+  if (!selectionPromise || selectionPreference !== preference) {
+    selectionPreference = preference;
+    selectionPromise = selectBackend(preference).catch(error => {
+      selectionPromise = null;
+      throw error;
+    });
+  }
+  return selectionPromise;
+}
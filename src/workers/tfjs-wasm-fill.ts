@@ -0,0 +1,28 @@
+import * as faceapi from 'face-api.js';
+import { BackendWasm, version_wasm } from '@tensorflow/tfjs-backend-wasm';
+
+// Parche del backend WASM de tfjs 1.7.0, la versión que fija face-api.js 0.22 (package.json la fija
+// también). Ese backend no implementa `fill`, que face-api.js usa para rellenar la imagen hasta
+// hacerla cuadrada, y el método heredado de KernelBackend lanza "not yet implemented". Aquí se añade
+// creando el tensor con los valores ya rellenados.
+//
+// Solo se aplica a esa versión y si el backend sigue sin `fill` propio: al actualizar tfjs, el
+// parche no se aplica y el aviso de la consola indica que hay que revisar si sigue haciendo falta.
+// Se instala en el prototipo porque tfjs crea la instancia del backend al activarlo; solo afecta al
+// worker de detección, que es el único que importa este módulo.
+
+const PATCHED_WASM_VERSION = '1.7.0';
+
+export function patchWasmFill(): void {
+  if (Object.prototype.hasOwnProperty.call(BackendWasm.prototype, 'fill')) return;
+  if (version_wasm !== PATCHED_WASM_VERSION) {
+    console.warn(`TfBackend: tfjs-backend-wasm ${version_wasm} has no fill(); patch is pinned to ${PATCHED_WASM_VERSION}, review it.`);
+    return;
+  }
+  const tf = faceapi.tf;
+  BackendWasm.prototype.fill = function fill(shape: number[], value: number | string, dtype: faceapi.tf.DataType = 'float32') {
+    const buffer = tf.buffer(shape, dtype);
+    (buffer.values as { fill(value: number | string): unknown }).fill(value);
+    return buffer.toTensor();
+  } as typeof BackendWasm.prototype.fill;
+}